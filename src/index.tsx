@@ -5,6 +5,9 @@ import {
   onCleanup,
   splitProps,
   mergeProps,
+  on,
+  untrack,
+  Accessor,
   Component,
 } from "solid-js";
 import {
@@ -12,18 +15,44 @@ import {
   allFilesAccepted,
   composeEventHandlers,
   fileAccepted,
-  fileMatchSize,
+  fileMatchAcceptSize,
+  filesOverAcceptMaxFiles,
+  canUseDirectoryPickerAPI,
   canUseFileSystemAccessAPI,
+  hasDirectoryItems,
   isAbort,
+  isClipboardEvtWithFiles,
   isEvtWithFiles,
   isIeOrEdge,
   isPropagationStopped,
   isSecurityError,
+  isThenable,
+  runValidator,
+  setInputFiles,
+  filesToFormData,
   onDocumentDragOver,
   pickerOptionsFromAccept,
-  TOO_MANY_FILES_REJECTION,
+  getTooManyFilesRejection,
+  getDuplicateFileRejection,
+  findAcceptEntry,
+  fileContentHash,
+  fileMetadataKey,
+  toFileWithPath,
+  getTotalSizeRejection,
+  getUnreadableFileRejection,
+  getDragItemTypes,
+  dragItemsAccepted,
+  splitOverflow,
+  totalSize,
 } from "./utils";
-import { DropzoneHookResult, DropzoneInputProps, DropzoneProps, DropzoneRootProps, FileError, FileRejection, FileWithPath, fromEvent, GenericEventHandler } from "./types";
+import { fileContentAccepted } from "./utils/sniff";
+import { fetchFile, getDroppedUrls, isEvtWithLinks } from "./utils/links";
+import { innermostDropzone, NestedDropzone, registerDropzone } from "./utils/nesting";
+import { createThumbnail, hasImageConstraints, imageMatchDimensions } from "./utils/image";
+import { DropzoneHookResult, DropzoneInputProps, DropzoneProps, DropzoneRootProps, FileError, FileRejection, FileWithPath, fromEvent, GenericEventHandler, ValidatorResult } from "./types";
+
+// Drops that were only prevented to keep them from navigating away, which {windowDrop} can still take
+const strayDrops = new WeakSet<Event>();
 
 const defaultProps = {
   disabled: false,
@@ -38,6 +67,18 @@ const defaultProps = {
   noDrag: false,
   noDragEventsBubbling: false,
   useFsAccessApi: false,
+  usePaste: false,
+  accumulate: false,
+  duplicateStrategy: "allow" as const,
+  duplicateComparison: "metadata" as const,
+  overflowStrategy: "reject-all" as const,
+  totalSizeStrategy: "reject-all" as const,
+  sniffContent: false,
+  thumbnailSize: 200,
+  innermostOnly: false,
+  windowDrop: false,
+  acceptLinks: false,
+  fetchUrl: fetchFile,
   autoFocus: false,
 };
 
@@ -50,6 +91,7 @@ const Dropzone: Component<DropzoneProps> = (props) => {
 
   if (local.ref) {
     local.ref.open = dropzoneState.open;
+    local.ref.openDirectory = dropzoneState.openDirectory;
   }
   
   const c = local.children;
@@ -86,8 +128,30 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     'onFileDialogCancel',
     'onFileDialogOpen',
     'useFsAccessApi',
+    'usePaste',
+    'accumulate',
+    'duplicateStrategy',
+    'duplicateComparison',
+    'sniffContent',
+    'minWidth',
+    'maxWidth',
+    'minHeight',
+    'maxHeight',
+    'maxMegapixels',
+    'aspectRatio',
+    'aspectRatioTolerance',
+    'thumbnailSize',
+    'maxTotalSize',
+    'overflowStrategy',
+    'messages',
+    'innermostOnly',
+    'totalSizeStrategy',
     'autoFocus',
     'preventDropOnDocument',
+    'windowDrop',
+    'acceptLinks',
+    'fetchUrl',
+    'onDropText',
     'noClick',
     'noKeyboard',
     'noDrag',
@@ -102,45 +166,70 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
   const [isDragActive, setIsDragActive] = createSignal(false);
   const [isDragAccept, setIsDragAccept] = createSignal(false);
   const [isDragReject, setIsDragReject] = createSignal(false);
+  const [isDragOverWindow, setIsDragOverWindow] = createSignal(false);
+  const [dragItemTypes, setDragItemTypes] = createSignal<string[]>([]);
   const [acceptedFiles, setAcceptedFiles] = createSignal<File[]>([]);
   const [fileRejections, setFileRejections] = createSignal<FileRejection[]>([]);
+  const [isValidating, setIsValidating] = createSignal(false);
 
   // Refs
-  let rootRef: HTMLElement | undefined;
-  let inputRef: HTMLInputElement | undefined;
+  const [rootRef, setRootRef] = createSignal<HTMLElement>();
+  const [inputRef, setInputRef] = createSignal<HTMLInputElement>();
 
   createEffect(() => {
-    if (!rootRef) return;
+    const root = rootRef();
+    if (!root) return;
 
     // only when neither disabled nor noKeyboard
     if (!local.disabled && !local.noKeyboard) {
-      rootRef.setAttribute("tabindex", "0");
+      root.setAttribute("tabindex", "0");
     } else {
-      rootRef.removeAttribute("tabindex");
+      root.removeAttribute("tabindex");
     }
   });
 
   createEffect(() => {
-    if (!inputRef) return;
+    const input = inputRef();
+    if (!input) return;
 
     // sync accept attribute (so getAttribute("accept") updates)
     const a = acceptAttr();
     if (a) {
-      inputRef.setAttribute("accept", a);
+      input.setAttribute("accept", a);
     } else {
-      inputRef.removeAttribute("accept");
+      input.removeAttribute("accept");
     }
 
     // sync multiple boolean attribute
     if (local.multiple) {
-      inputRef.setAttribute("multiple", "");
+      input.setAttribute("multiple", "");
     } else {
-      inputRef.removeAttribute("multiple");
+      input.removeAttribute("multiple");
     }
   });
   
+  // A named input is submitted with its form, so it has to hold the accepted files, whichever way they were added
+  const syncInputFiles = () => {
+    const input = inputRef();
+    const files = acceptedFiles();
+    if (input?.name) {
+      setInputFiles(input, files);
+    }
+  };
+
+  createEffect(syncInputFiles);
+
   let openCalledInThisTick = false;
 
+  // Each drop or selection aborts the extraction of the previous one, whose files would otherwise replace the newer ones
+  let extraction: AbortController | undefined;
+
+  const startExtraction = () => {
+    extraction?.abort();
+    extraction = new AbortController();
+    return extraction.signal;
+  };
+
   // Memoized values
   const acceptAttr = createMemo(() => acceptPropAsAcceptAttr(local.accept));
   const pickerTypes = createMemo(() => pickerOptionsFromAccept(local.accept));
@@ -162,10 +251,13 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
   const onWindowFocus = () => {
     if (!fsAccessApiWorks && isFileDialogActive()) {
       setTimeout(() => {
-        if (inputRef) {
-          const { files } = inputRef;
+        const input = inputRef();
+        if (input) {
+          const { files } = input;
           if (!files?.length) {
             setIsFileDialogActive(false);
+            // Opening the dialog emptied the input, put the accepted files back
+            syncInputFiles();
             onFileDialogCancelCb()();
           }
         }
@@ -182,9 +274,12 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
 
   // Document drop prevention
   const onDocumentDrop = (event: Event) => {
-    if (rootRef && rootRef.contains(event.target as Node)) {
+    if (rootRef()?.contains(event.target as Node)) {
       return;
     }
+    if (!event.defaultPrevented) {
+      strayDrops.add(event);
+    }
     event.preventDefault();
     dragTargets = [];
   };
@@ -200,10 +295,75 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     }
   });
 
+  // Window drop mode, a drop anywhere on the page goes through the same pipeline as a drop on the root.
+  // The drag is tracked in the capture phase, before any handler on the page can stop the events
+  let windowDragTargets: EventTarget[] = [];
+
+  const onWindowDragEnter = (event: Event) => {
+    if (!isEvtWithFiles(event)) return;
+    windowDragTargets = [...windowDragTargets, event.target!];
+    setIsDragOverWindow(true);
+  };
+
+  // Separate from onDocumentDragOver so that removing it keeps the {preventDropOnDocument} listener
+  // Other drags, e.g. of text into an input, keep their default behavior
+  const onWindowDragOver = (event: Event) => {
+    if (isEvtWithFiles(event) || isEvtWithDroppedLinks(event)) {
+      event.preventDefault();
+    }
+  };
+
+  const onWindowDragLeave = (event: Event) => {
+    windowDragTargets = windowDragTargets.filter((target) => target !== event.target);
+    if (windowDragTargets.length === 0) {
+      setIsDragOverWindow(false);
+    }
+  };
+
+  const onWindowDragEnd = () => {
+    windowDragTargets = [];
+    setIsDragOverWindow(false);
+  };
+
+  // Runs once the drop has bubbled up to the window, so that the drops other dropzones took can be told apart
+  const onWindowDrop = (event: Event) => {
+    if (!isEvtWithFiles(event) && !isEvtWithDroppedLinks(event)) {
+      return;
+    }
+    // Drops on the root have already been handled by its own listener
+    if (rootRef()?.contains(event.target as Node)) {
+      return;
+    }
+    if (event.defaultPrevented && !strayDrops.has(event)) {
+      return;
+    }
+    onDropCb(event);
+  };
+
+  createEffect(() => {
+    if (local.windowDrop && !local.disabled && !local.noDrag) {
+      document.addEventListener("dragenter", onWindowDragEnter, true);
+      document.addEventListener("dragover", onWindowDragOver, true);
+      document.addEventListener("dragleave", onWindowDragLeave, true);
+      document.addEventListener("drop", onWindowDragEnd, true);
+      window.addEventListener("drop", onWindowDrop, false);
+      onCleanup(() => {
+        document.removeEventListener("dragenter", onWindowDragEnter, true);
+        document.removeEventListener("dragover", onWindowDragOver, true);
+        document.removeEventListener("dragleave", onWindowDragLeave, true);
+        document.removeEventListener("drop", onWindowDragEnd, true);
+        window.removeEventListener("drop", onWindowDrop, false);
+        windowDragTargets = [];
+        setIsDragOverWindow(false);
+      });
+    }
+  });
+
   // Auto focus
   createEffect(() => {
-    if (!local.disabled && local.autoFocus && rootRef) {
-      rootRef.focus();
+    const root = rootRef();
+    if (!local.disabled && local.autoFocus && root) {
+      root.focus();
     }
   });
 
@@ -216,6 +376,14 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     }
   };
 
+  // What is left of {maxFiles} and {maxTotalSize} for the dragged files, the selection stays when accumulating
+  const selectedCount = () => (local.accumulate ? acceptedFiles().length : 0);
+
+  const remainingTotalSize = () =>
+    local.maxTotalSize !== undefined && local.accumulate
+      ? local.maxTotalSize - totalSize(acceptedFiles())
+      : local.maxTotalSize;
+
   const onDragEnterCb = (event: DragEvent) => {
     event.preventDefault();
     stopPropagation(event);
@@ -230,12 +398,17 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       const accept = allFilesAccepted({
         files: syncFiles as File[],
         accept: acceptAttr(),
+        acceptMap: local.accept,
         minSize: local.minSize,
         maxSize: local.maxSize,
         multiple: local.multiple,
         maxFiles: local.maxFiles,
-        validator: local.validator,
+        selectedCount: selectedCount(),
+        maxTotalSize: remainingTotalSize(),
+        totalSizeStrategy: local.totalSizeStrategy,
+        overflowStrategy: local.overflowStrategy,
       });
+      setDragItemTypes(syncFiles.map((file) => file.type));
       setIsDragActive(true);
       setIsDragAccept(accept);
       setIsDragReject(!accept);
@@ -243,6 +416,25 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       return;
   }
 
+    // Browsers only expose the kind and type of the dragged items until the drop
+    const types = dt ? getDragItemTypes(dt) : [];
+    if (types.length) {
+      const accept = dragItemsAccepted({
+        types,
+        accept: local.accept,
+        multiple: local.multiple,
+        maxFiles: local.maxFiles,
+        selectedCount: selectedCount(),
+        overflowStrategy: local.overflowStrategy,
+      });
+      setDragItemTypes(types);
+      setIsDragActive(true);
+      setIsDragAccept(accept);
+      setIsDragReject(!accept);
+      local.onDragEnter?.(event);
+      return;
+    }
+
     if (isEvtWithFiles(event)) {
       Promise.resolve(local.getFilesFromEvent(event))
         .then((files) => {
@@ -256,14 +448,19 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
             allFilesAccepted({
               files: files as File[],
               accept: acceptAttr(),
+              acceptMap: local.accept,
               minSize: local.minSize,
               maxSize: local.maxSize,
               multiple: local.multiple,
               maxFiles: local.maxFiles,
-              validator: local.validator,
+              selectedCount: selectedCount(),
+              maxTotalSize: remainingTotalSize(),
+              totalSizeStrategy: local.totalSizeStrategy,
+              overflowStrategy: local.overflowStrategy,
             });
           const dragReject = fileCount > 0 && !dragAccept;
 
+          setDragItemTypes(files.map((file) => file.type));
           setIsDragAccept(dragAccept);
           setIsDragReject(dragReject);
           setIsDragActive(true);
@@ -273,6 +470,10 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
           }
         })
         .catch((e) => onErrCb(e));
+    } else if (isEvtWithDroppedLinks(event)) {
+      // Nothing is known about the links until they are fetched on drop
+      setIsDragActive(true);
+      local.onDragEnter?.(event);
     }
   };
 
@@ -280,7 +481,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     event.preventDefault();
     stopPropagation(event);
 
-    const hasFiles = isEvtWithFiles(event);
+    const hasFiles = isEvtWithFiles(event) || isEvtWithDroppedLinks(event);
     if (hasFiles && event.dataTransfer) {
       try {
         event.dataTransfer.dropEffect = "copy";
@@ -297,7 +498,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
   };
 
   const onDragLeaveCb = (event: DragEvent) => {
-    if (!isEvtWithFiles(event)) return;
+    if (!isEvtWithFiles(event) && !isEvtWithDroppedLinks(event)) return;
     if (!dragTargets.includes(event.target!)) return;    
     
     event.preventDefault();
@@ -305,7 +506,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
 
     // Only deactivate once the dropzone and all children have been left
     const targets = dragTargets.filter(
-      (target) => rootRef && rootRef.contains(target as Node)
+      (target) => rootRef()?.contains(target as Node)
     );
     
     // Make sure to remove a target present multiple times only once
@@ -319,49 +520,206 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       return;
     }
 
+    setDragItemTypes([]);
     setIsDragActive(false);
     setIsDragAccept(false);
     setIsDragReject(false);
 
-    if (isEvtWithFiles(event) && local.onDragLeave) {
+    if (local.onDragLeave) {
       local.onDragLeave(event);
     }
   };
 
+  // What each drop added to the selection, since a drop sets its files twice (the synchronous FileList pass,
+  // then the result of getFilesFromEvent()) and the second pass has to replace the first one
+  const filesAddedBy = new WeakMap<Event, { acceptedFiles: File[]; fileRejections: FileRejection[] }>();
+
+  const currentSelection = (event: Event | null) => {
+    if (!local.accumulate) {
+      return { acceptedFiles: [], fileRejections: [] };
+    }
+    const added = event ? filesAddedBy.get(event) : undefined;
+    return {
+      acceptedFiles: acceptedFiles().filter((file) => !added?.acceptedFiles.includes(file)),
+      fileRejections: fileRejections().filter((rejection) => !added?.fileRejections.includes(rejection)),
+    };
+  };
+
+  // Content hashes are computed once per file, only needed when comparing duplicates by content
+  const contentHashes = new WeakMap<File, string>();
+
+  // Files that were not hashed, because no other file has their size or their content could not be read, fall
+  // back to their metadata
+  const duplicateKey = (file: File) =>
+    (local.duplicateComparison === "content" && contentHashes.get(file)) || fileMetadataKey(file);
+
+  const imageConstraints = createMemo(() => ({
+    minWidth: local.minWidth,
+    maxWidth: local.maxWidth,
+    minHeight: local.minHeight,
+    maxHeight: local.maxHeight,
+    maxMegapixels: local.maxMegapixels,
+    aspectRatio: local.aspectRatio,
+    aspectRatioTolerance: local.aspectRatioTolerance,
+  }));
+
+  // Checks that need to read the file, null if none of them is enabled
+  const readContentErrors = (file: File): Promise<FileError[]> | null => {
+    const checkImage = hasImageConstraints(imageConstraints());
+    if (!local.sniffContent && !checkImage) {
+      return null;
+    }
+    return Promise.all([
+      local.sniffContent ? fileContentAccepted(file, local.accept, local.messages) : null,
+      checkImage ? imageMatchDimensions(file, imageConstraints(), local.messages) : [],
+    ]).then(
+      ([sniffed, imageErrors]) => (sniffed?.[1] ? [sniffed[1], ...imageErrors] : imageErrors),
+      (error) => [getUnreadableFileRejection(error, local.messages)]
+    );
+  };
+
+  // Bumped by every new batch of files, so the results of a slower, outdated validation are dropped
+  let validationRun = 0;
+
   const setFiles = (files: FileWithPath[], event: DragEvent | Event | null) => {
-    const newAcceptedFiles: File[] = [];
-    const newFileRejections: FileRejection[] = [];
+    const run = ++validationRun;
+    const checks = files.map((file) => {
+      const [, acceptError] = fileAccepted(file as File, acceptAttr(), local.messages);
+      const [, sizeError] = fileMatchAcceptSize(file as File, local.accept, local.minSize, local.maxSize, local.messages);
+      const errors = [acceptError, sizeError].filter((e): e is FileError => e !== null);
+      // Reading the file contents is only worth it for files the declared type lets through
+      const contentErrors = acceptError ? null : readContentErrors(file as File);
+      return {
+        file: file as File,
+        errors: contentErrors ? contentErrors.then((e) => [...errors, ...e]) : errors,
+        customErrors: local.validator
+          ? runValidator(file as File, local.validator, local.messages, (e) =>
+              onErrCb(e instanceof Error ? e : new Error(String(e)))
+            )
+          : null,
+      };
+    });
 
-    files.forEach((file) => {
-      const [accepted, acceptError] = fileAccepted(file as File, acceptAttr());
-      const [sizeMatch, sizeError] = fileMatchSize(file as File, local.minSize, local.maxSize);
-      const customErrors = local.validator ? local.validator(file as File) : null;
+    const hashContents = local.duplicateStrategy !== "allow" && local.duplicateComparison === "content";
+    if (!hashContents && !checks.some(({ errors, customErrors }) => isThenable(errors) || isThenable(customErrors))) {
+      const [newAcceptedFiles, newFileRejections] = partitionChecks(checks as ResolvedCheck[]);
+      setIsValidating(false);
+      commitFiles(newAcceptedFiles, newFileRejections, event);
+      return;
+    }
 
-      if (accepted && sizeMatch && !customErrors) {
-        newAcceptedFiles.push(file as File);
-      } else {
-        let errors = [acceptError, sizeError].filter((e): e is FileError => e !== null);
+    setIsValidating(true);
+    Promise.all(
+      checks.map((check) =>
+        Promise.all([check.errors, check.customErrors]).then(([errors, customErrors]) => ({
+          file: check.file,
+          errors,
+          customErrors,
+        }))
+      )
+    )
+      .then((resolved) => {
+        const [newAcceptedFiles, newFileRejections] = partitionChecks(resolved);
+        const candidates = hashContents ? [...acceptedFiles(), ...newAcceptedFiles] : [];
+        // Only files of the same size can have the same content, and a file that cannot be hashed, e.g. when
+        // crypto.subtle is missing outside of secure contexts, is compared by its metadata
+        const unhashed = candidates.filter(
+          (file) => !contentHashes.has(file) && candidates.some((other) => other !== file && other.size === file.size)
+        );
+        return Promise.all(
+          unhashed.map((file) => fileContentHash(file).then((hash) => contentHashes.set(file, hash), noop))
+        ).then(() => {
+          if (run !== validationRun) {
+            return;
+          }
+          setIsValidating(false);
+          commitFiles(newAcceptedFiles, newFileRejections, event);
+        });
+      })
+      .catch((e) => {
+        if (run === validationRun) {
+          setIsValidating(false);
+          onErrCb(e);
+        }
+      });
+  };
 
-        if (customErrors) {
-          errors = errors.concat(Array.isArray(customErrors) ? customErrors : [customErrors]);
+  const commitFiles = (newAcceptedFiles: File[], newFileRejections: FileRejection[], event: Event | null) => {
+    const selection = currentSelection(event);
+
+    if (local.duplicateStrategy !== "allow") {
+      const seen = new Set(selection.acceptedFiles.map(duplicateKey));
+      const unique = newAcceptedFiles.filter((file) => {
+        const key = duplicateKey(file);
+        const isDuplicate = key !== undefined && seen.has(key);
+        seen.add(key);
+        if (isDuplicate && local.duplicateStrategy === "reject") {
+          newFileRejections.push({ file, errors: [getDuplicateFileRejection(local.messages)] });
         }
+        return !isDuplicate;
+      });
+      newAcceptedFiles.splice(0, newAcceptedFiles.length, ...unique);
+    }
 
-        newFileRejections.push({ file: file as File, errors });
-      }
-    });
+    // Files that are already selected count towards the limit as well
+    const limit = local.multiple ? local.maxFiles : 1;
+    const fileCount = selection.acceptedFiles.length + newAcceptedFiles.length;
+    if (limit >= 1 && fileCount > limit) {
+      const [kept, excess] = splitOverflow(
+        newAcceptedFiles,
+        Math.max(0, limit - selection.acceptedFiles.length),
+        local.overflowStrategy
+      );
+      const error = getTooManyFilesRejection(limit, fileCount, local.messages);
+      excess.forEach((file) => {
+        newFileRejections.push({ file, errors: [error] });
+      });
+      newAcceptedFiles.splice(0, newAcceptedFiles.length, ...kept);
+    }
 
-    if (
-      (!local.multiple && newAcceptedFiles.length > 1) ||
-      (local.multiple && local.maxFiles >= 1 && newAcceptedFiles.length > local.maxFiles)
-    ) {
-      newAcceptedFiles.forEach((file) => {
-        newFileRejections.push({ file, errors: [TOO_MANY_FILES_REJECTION] });
+    // Files of a type are rejected, per {overflowStrategy}, when there are more than the `maxFiles` of its accept entry
+    const overTypeLimit = filesOverAcceptMaxFiles(
+      newAcceptedFiles,
+      local.accept,
+      local.overflowStrategy,
+      selection.acceptedFiles
+    );
+    if (overTypeLimit.length > 0) {
+      const unlimited = newAcceptedFiles.filter((file) => {
+        if (overTypeLimit.includes(file)) {
+          const [mime, entry] = findAcceptEntry(file, local.accept)!;
+          const count = [...selection.acceptedFiles, ...newAcceptedFiles].filter(
+            (other) => findAcceptEntry(other, local.accept)?.[0] === mime
+          ).length;
+          newFileRejections.push({ file, errors: [getTooManyFilesRejection(entry.maxFiles!, count, local.messages)] });
+          return false;
+        }
+        return true;
       });
-      newAcceptedFiles.splice(0);
+      newAcceptedFiles.splice(0, newAcceptedFiles.length, ...unlimited);
     }
 
-    setAcceptedFiles(newAcceptedFiles);
-    setFileRejections(newFileRejections);
+    if (local.maxTotalSize !== undefined) {
+      // The size the selection would have with every new file
+      const combinedSize = totalSize(selection.acceptedFiles) + totalSize(newAcceptedFiles);
+      let budget = local.maxTotalSize - totalSize(selection.acceptedFiles);
+      const overflow =
+        local.totalSizeStrategy === "keep-first"
+          ? newAcceptedFiles.findIndex((file) => (budget -= file.size) < 0)
+          : combinedSize > local.maxTotalSize ? 0 : -1;
+      if (overflow !== -1) {
+        const error = getTotalSizeRejection(local.maxTotalSize, combinedSize, local.messages);
+        newAcceptedFiles.splice(overflow).forEach((file) => {
+          newFileRejections.push({ file, errors: [error] });
+        });
+      }
+    }
+
+    if (event) {
+      filesAddedBy.set(event, { acceptedFiles: newAcceptedFiles, fileRejections: newFileRejections });
+    }
+    setAcceptedFiles([...selection.acceptedFiles, ...newAcceptedFiles]);
+    setFileRejections([...selection.fileRejections, ...newFileRejections]);
     setIsDragReject(newFileRejections.length > 0);
 
     if (local.onDrop && event) {
@@ -383,9 +741,11 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       event.preventDefault();
       stopPropagation(event);
       dragTargets = [];
-      const syncFiles = Array.from(target.files) as FileWithPath[];
+      startExtraction();
+      const syncFiles = Array.from(target.files).map((file) => toFileWithPath(file));
       setFiles(syncFiles, event);
       // reset drag state
+      setDragItemTypes([]);
       setIsDragActive(false);
       setIsDragAccept(false);
       setIsDragReject(false);
@@ -399,47 +759,132 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     dragTargets = [];
 
     if (isEvtWithFiles(event)) {
+      const signal = startExtraction();
       const dt = (event as DragEvent).dataTransfer;
-      if (dt && dt.files?.length) {
+      // Dropped folders show up as a single bogus file in the FileList, wait for them to be traversed. The extracted
+      // files follow anyway, so the FileList is skipped as well when a validator would run twice on every file
+      if (dt && dt.files?.length && !hasDirectoryItems(dt) && !local.validator) {
         const syncFiles = Array.from(dt.files) as FileWithPath[];
         setFiles(syncFiles, event);
       }
 
-      Promise.resolve(local.getFilesFromEvent(event))
+      Promise.resolve(local.getFilesFromEvent(event, signal))
         .then((files) => {
-          if (isPropagationStopped(event) && !local.noDragEventsBubbling) {
+          if (signal.aborted || (isPropagationStopped(event) && !local.noDragEventsBubbling)) {
             return;
           }
           setFiles(files as FileWithPath[], event);
         })
-        .catch((e) => onErrCb(e));
+        .catch((e) => {
+          if (!signal.aborted) {
+            onErrCb(e);
+          }
+        });
+    } else if (isEvtWithDroppedLinks(event)) {
+      onDropLinks(event);
     }
     
     // Reset drag state
+    setDragItemTypes([]);
     setIsDragActive(false);
     setIsDragAccept(false);
     setIsDragReject(false);
   };
 
-  const openFileDialog = () => {
+  const isEvtWithDroppedLinks = (event: Event): event is DragEvent => local.acceptLinks && isEvtWithLinks(event);
+
+  const onDropLinks = (event: DragEvent) => {
+    // The data transfer is only readable while the event is dispatched
+    const dt = event.dataTransfer!;
+    const signal = startExtraction();
+    const urls = getDroppedUrls(dt);
+    if (!urls.length) {
+      const text = dt.getData("text/plain");
+      if (text) {
+        local.onDropText?.(text, event);
+      }
+      return;
+    }
+
+    // Links that cannot be fetched are reported through onError, the others are still dropped
+    Promise.all(
+      urls.map((url) =>
+        Promise.resolve()
+          .then(() => local.fetchUrl(url, signal))
+          .catch((e) => {
+            if (!signal.aborted) {
+              onErrCb(e);
+            }
+            return null;
+          })
+      )
+    ).then((files) => {
+      if (signal.aborted) {
+        return;
+      }
+      const fetched = files.filter((file): file is File => file !== null);
+      if (fetched.length) {
+        setFiles(fetched.map((file) => toFileWithPath(file)), event);
+      }
+    });
+  };
+
+  const onPasteCb = (event: ClipboardEvent) => {
+    if (event.cancelBubble || !isClipboardEvtWithFiles(event)) {
+      return;
+    }
+
+    // Keep the browser from also pasting the files into an editable ancestor
+    event.preventDefault();
+
+    const signal = startExtraction();
+    Promise.resolve(local.getFilesFromEvent(event, signal))
+      .then((files) => {
+        if (!signal.aborted) {
+          setFiles(files as FileWithPath[], event);
+        }
+      })
+      .catch((e) => {
+        if (!signal.aborted) {
+          onErrCb(e);
+        }
+      });
+  };
+
+  const openFileDialog = (directory = false) => {
     // No point to use FS access APIs if context is not secure
     // https://developer.mozilla.org/en-US/docs/Web/Security/Secure_Contexts#feature_detection
-    if (fsAccessApiWorks) {
+    if (fsAccessApiWorks && (!directory || canUseDirectoryPickerAPI())) {
       setIsFileDialogActive(true);
       onFileDialogOpenCb()();
 
       // https://developer.mozilla.org/en-US/docs/Web/API/window/showOpenFilePicker
-      const opts = {
-        multiple: local.multiple,
-        types: pickerTypes(),
-      };
-      
-      (window as any)
-        .showOpenFilePicker(opts)
-        .then((handles: FileSystemFileHandle[]) => local.getFilesFromEvent(handles))
-        .then((files: FileWithPath[]) => {
-          setFiles(files, null);
-          setIsFileDialogActive(false);
+      // https://developer.mozilla.org/en-US/docs/Web/API/Window/showDirectoryPicker
+      const pick: Promise<Array<FileSystemFileHandle | FileSystemDirectoryHandle>> = directory
+        ? (window as any).showDirectoryPicker({ mode: "read" }).then((handle: FileSystemDirectoryHandle) => [handle])
+        : (window as any).showOpenFilePicker({
+            multiple: local.multiple,
+            types: pickerTypes(),
+          });
+
+      pick
+        .then((handles) => {
+          const signal = startExtraction();
+          return Promise.resolve(local.getFilesFromEvent(handles, signal)).then(
+            (files: FileWithPath[]) => {
+              if (!signal.aborted) {
+                setFiles(files, null);
+              }
+              setIsFileDialogActive(false);
+            },
+            (e: Error) => {
+              // Superseded by a newer drop, which is not a cancellation of the dialog
+              if (!signal.aborted) {
+                throw e;
+              }
+              setIsFileDialogActive(false);
+            }
+          );
         })
         .catch((e: Error) => {
           // AbortError means the user canceled
@@ -450,9 +895,8 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
             fsAccessApiWorks = false;
             // CORS, so cannot use this API
             // Try using the input
-            if (inputRef) {
-              inputRef.value = "";
-              inputRef.click();
+            if (inputRef()) {
+              clickInput(directory);
             } else {
               onErrCb(
                 new Error(
@@ -467,21 +911,35 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       return;
     }
 
-    if (inputRef) {
+    if (inputRef()) {
       setIsFileDialogActive(true);
       onFileDialogOpenCb()();
-      inputRef.value = "";
-      inputRef.click();
+      clickInput(directory);
     }
   };
 
+  // Browsers without the directory picker can still select a folder through a `webkitdirectory` input
+  const clickInput = (directory: boolean) => {
+    const input = inputRef();
+    if (!input) return;
+
+    if (directory) {
+      input.setAttribute("webkitdirectory", "");
+    } else {
+      input.removeAttribute("webkitdirectory");
+    }
+    input.value = "";
+    input.click();
+  };
+
   // Cb to open the file dialog when SPACE/ENTER occurs on the dropzone
   const onKeyDownCb = (event: KeyboardEvent) => {
     if (event.cancelBubble) {
       return;
     }
 
-    if (!rootRef || !rootRef.isEqualNode(event.target as Node)) {
+    const root = rootRef();
+    if (!root || !root.isEqualNode(event.target as Node)) {
       return;
     }
 
@@ -526,9 +984,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     // to ensure React can handle state changes
     // See: https://github.com/react-dropzone/react-dropzone/issues/450
     if (isIeOrEdge()) {
-      if (inputRef) {
-        inputRef.click();
-      }
+      inputRef()?.click();
     } else {
       setTimeout(openFileDialog, 0);
     }
@@ -542,6 +998,34 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     return local.noKeyboard ? undefined : composeHandler(fn);
   };
 
+  // Outer dropzones stay inactive and ignore the drop while the drag is over a nested one
+  const nestedDropzone: NestedDropzone = {
+    root: rootRef,
+    isEnabled: () => !local.disabled && !local.noDrag,
+  };
+
+  createEffect(() => {
+    if (local.innermostOnly) {
+      onCleanup(registerDropzone(nestedDropzone));
+    }
+  });
+
+  const whenInnermost = <T extends (event: DragEvent, ...args: any[]) => any>(fn: T) =>
+    ((event: DragEvent, ...args: any[]) => {
+      if (local.innermostOnly && innermostDropzone(event.target as Node) !== nestedDropzone) {
+        event.preventDefault();
+        if (event.type === "drop") {
+          dragTargets = [];
+        }
+        setDragItemTypes([]);
+        setIsDragActive(false);
+        setIsDragAccept(false);
+        setIsDragReject(false);
+        return;
+      }
+      return fn(event, ...args);
+    }) as T;
+
   const composeDragHandler = <T extends (...args: any[]) => any>(fn: T): T | undefined => {
     if (local.noDrag) return undefined;
 
@@ -578,6 +1062,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
       'onDragOver',
       'onDragLeave',
       'onDrop',
+      'onPaste',
     ]);
 
     const refKey = localProps.refKey || 'ref';
@@ -596,15 +1081,19 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
         composeEventHandlers(localProps.onClick, onClickCb)
       ),
       onDragEnter: composeDragHandler(
-        composeEventHandlers(
-          local.onDragEnter,                           
-          composeEventHandlers(localProps.onDragEnter, onDragEnterCb)
+        whenInnermost(
+          composeEventHandlers(
+            local.onDragEnter,
+            composeEventHandlers(localProps.onDragEnter, onDragEnterCb)
+          )
         )
       ),
       onDragOver: composeDragHandler(
-        composeEventHandlers(
-          local.onDragOver,
-          composeEventHandlers(localProps.onDragOver, onDragOverCb)
+        whenInnermost(
+          composeEventHandlers(
+            local.onDragOver,
+            composeEventHandlers(localProps.onDragOver, onDragOverCb)
+          )
         )
       ),
       onDragLeave: composeDragHandler(
@@ -614,13 +1103,18 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
         )
       ),
       onDrop: composeDragHandler(
-        composeEventHandlers(
-          (local.onDrop as unknown as GenericEventHandler),
-          composeEventHandlers(localProps.onDrop, onDropCb)
+        whenInnermost(
+          composeEventHandlers(
+            (local.onDrop as unknown as GenericEventHandler),
+            composeEventHandlers(localProps.onDrop, onDropCb)
+          )
         )
       ),
+      onPaste: local.usePaste
+        ? composeHandler(composeEventHandlers(localProps.onPaste, onPasteCb))
+        : localProps.onPaste,
       role: localProps.role ? localProps.role : "presentation",
-      [refKey]: (el: HTMLElement) => { rootRef = el; },
+      [refKey]: (el: HTMLElement) => { setRootRef(el); },
       ...(!local.disabled && !local.noKeyboard ? { tabIndex: 0 } : {}),
       ...restProps,
     };
@@ -659,7 +1153,7 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
         composeEventHandlers(localProps.onClick as GenericEventHandler, onInputElementClick)
       ),
       tabIndex: -1,
-      [refKey]: (el: HTMLInputElement) => { inputRef = el; },
+      [refKey]: (el: HTMLInputElement) => { setInputRef(el); },
     };
 
     const finalInputProps = {
@@ -670,6 +1164,82 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     return finalInputProps;
   };
 
+  const toFormData = (fieldName: string) => filesToFormData(acceptedFiles(), fieldName);
+
+  const removeFile = (file: File) => {
+    setAcceptedFiles(acceptedFiles().filter((f) => f !== file));
+  };
+
+  const removeRejection = (file: File) => {
+    setFileRejections(fileRejections().filter((rejection) => rejection.file !== file));
+  };
+
+  const clear = () => {
+    validationRun++;
+    setIsValidating(false);
+    setAcceptedFiles([]);
+    setFileRejections([]);
+    setIsDragReject(false);
+  };
+
+  // Object URLs of the accepted files and their thumbnails, created on first use and revoked once the file leaves the selection
+  const previewUrls = new Map<File, string>();
+
+  const previewUrl = (file: File) => {
+    let url = previewUrls.get(file);
+    if (url === undefined) {
+      url = URL.createObjectURL(file);
+      previewUrls.set(file, url);
+    }
+    return url;
+  };
+
+  // Thumbnails are generated in the background, the accessor is undefined until they are ready
+  const thumbnails = new Map<File, { url: Accessor<string | undefined>; revoke: () => void }>();
+
+  const thumbnail = (file: File) => {
+    let entry = thumbnails.get(file);
+    if (entry === undefined) {
+      const [url, setUrl] = createSignal<string>();
+      let revoked = false;
+      createThumbnail(file, local.thumbnailSize).then((blob) => {
+        if (blob && !revoked) {
+          setUrl(URL.createObjectURL(blob));
+        }
+      });
+      entry = {
+        url,
+        revoke: () => {
+          revoked = true;
+          const current = untrack(url);
+          if (current !== undefined) {
+            URL.revokeObjectURL(current);
+          }
+        },
+      };
+      thumbnails.set(file, entry);
+    }
+    return entry.url();
+  };
+
+  const revokePreviewUrls = (keep: File[] = []) => {
+    previewUrls.forEach((url, file) => {
+      if (!keep.includes(file)) {
+        URL.revokeObjectURL(url);
+        previewUrls.delete(file);
+      }
+    });
+    thumbnails.forEach(({ revoke }, file) => {
+      if (!keep.includes(file)) {
+        revoke();
+        thumbnails.delete(file);
+      }
+    });
+  };
+
+  createEffect(on(acceptedFiles, (files) => revokePreviewUrls(files), { defer: true }));
+  onCleanup(() => revokePreviewUrls());
+
   const open = () => {
     if (!local.disabled) {
       openCalledInThisTick = true;
@@ -681,12 +1251,27 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     }
   };
 
+  const openDirectory = () => {
+    if (!local.disabled) {
+      openCalledInThisTick = true;
+      openFileDialog(true);
+      // Reset the flag in the next tick
+      setTimeout(() => {
+        openCalledInThisTick = false;
+      }, 0);
+    }
+  };
+
   return {
     isFocused: () => isFocused() && !local.disabled,
-    isFileDialogActive: isFileDialogActive(),
+    isFileDialogActive,
     isDragActive,
     isDragAccept,
     isDragReject,
+    isDragOverWindow,
+    dragItemCount: () => dragItemTypes().length,
+    dragItemTypes,
+    isValidating,
     acceptedFiles: acceptedFiles,
     fileRejections: fileRejections,
     getRootProps,
@@ -694,10 +1279,44 @@ export function useDropzone(props: DropzoneProps = {}): DropzoneHookResult {
     rootRef,
     inputRef,
     open,
+    openDirectory,
+    removeFile,
+    removeRejection,
+    clear,
+    previewUrl,
+    thumbnail,
+    toFormData,
   };
 }
 
+interface ResolvedCheck {
+  file: File;
+  errors: FileError[];
+  customErrors: ValidatorResult;
+}
+
+function partitionChecks(checks: ResolvedCheck[]): [File[], FileRejection[]] {
+  const acceptedFiles: File[] = [];
+  const fileRejections: FileRejection[] = [];
+
+  checks.forEach(({ file, errors, customErrors }) => {
+    if (!errors.length && !customErrors) {
+      acceptedFiles.push(file);
+    } else {
+      if (customErrors) {
+        errors = errors.concat(Array.isArray(customErrors) ? customErrors : [customErrors]);
+      }
+      fileRejections.push({ file, errors });
+    }
+  });
+
+  return [acceptedFiles, fileRejections];
+}
+
 function noop(): void {}
 
 export { ErrorCode } from "./utils";
+export { formatBytes, isFileError } from "./utils/messages";
+export { createUploadQueue, UploadError } from "./upload";
+export { createTusUploader } from "./tus";
 export * from './types';
\ No newline at end of file
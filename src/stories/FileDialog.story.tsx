@@ -1,7 +1,7 @@
 import { useDropzone } from "solid-dropzone";
 import Dropzone from "solid-dropzone";
 import { For } from "solid-js";
-import { DropzoneRef } from "../types";
+import { DropzoneRef, FileWithPath } from "../types";
 
 export default {
   title: "FileDialog",
@@ -77,4 +77,38 @@ export function WithRef() {
       )}
     </Dropzone>
   );
-}
\ No newline at end of file
+}
+
+export function Directory() {
+  const props = useDropzone({
+    noClick: true,
+    noKeyboard: true
+  });
+
+  return (
+    <div class="container">
+      <div {...props.getRootProps({ class: 'dropzone' })}>
+        <input {...props.getInputProps()} />
+        <p>Drag 'n' drop some files or folders here</p>
+        <button type="button" onClick={props.open}>
+          Choose files
+        </button>
+        <button type="button" onClick={props.openDirectory}>
+          Choose folder
+        </button>
+      </div>
+      <aside>
+        <h4>Files</h4>
+        <ul>
+          <For each={props.acceptedFiles()}>
+            {(file: FileWithPath) => (
+              <li>
+                {file.path} - {file.size} bytes
+              </li>
+            )}
+          </For>
+        </ul>
+      </aside>
+    </div>
+  );
+}
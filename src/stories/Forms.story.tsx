@@ -13,35 +13,13 @@ interface CustomDropzoneProps {
 function Dropzone(props: CustomDropzoneProps) {
   const { required, name } = props;
 
-  let hiddenInputRef: HTMLInputElement | undefined;
-
-  const { getRootProps, getInputProps, open, acceptedFiles } = useDropzone({
-    onDrop: (incomingFiles) => {
-      if (hiddenInputRef) {
-        const dataTransfer = new DataTransfer();
-        incomingFiles.forEach((file) => {
-          dataTransfer.items.add(file);
-        });
-        hiddenInputRef.files = dataTransfer.files;
-
-        hiddenInputRef.dispatchEvent(new Event('change', { bubbles: true }));
-      }
-    }
-  });
+  // The accepted files are synced into the named input, dropped ones included
+  const { getRootProps, getInputProps, open, acceptedFiles } = useDropzone();
 
   return (
     <div class="container">
       <div {...getRootProps({ class: 'dropzone' })}>
-        <input
-          type="file"
-          name={name}
-          required={required}
-          ref={hiddenInputRef}
-          style={{
-            display: 'none'
-          }}
-        />
-        <input {...getInputProps()} />
+        <input {...getInputProps({ name, required })} />
         <p>Drag 'n' drop some files here</p>
         <button type="button" onClick={open}>
           Open File Dialog
@@ -86,4 +64,25 @@ export function Usage() {
       </form>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export function Fetch() {
+  const { getRootProps, getInputProps, acceptedFiles, toFormData } = useDropzone();
+
+  const handleUpload = () => {
+    // Files of dropped folders are named by their relative path, e.g. "photos/2024/cat.jpg"
+    fetch("/upload", { method: "POST", body: toFormData("files") });
+  };
+
+  return (
+    <div class="container">
+      <div {...getRootProps({ class: 'dropzone' })}>
+        <input {...getInputProps()} />
+        <p>Drag 'n' drop some files or folders here</p>
+      </div>
+      <button type="button" disabled={!acceptedFiles().length} onClick={handleUpload}>
+        Upload
+      </button>
+    </div>
+  );
+}
@@ -1,15 +1,11 @@
 import { useDropzone } from "solid-dropzone";
-import { For, createSignal, createEffect, onCleanup } from "solid-js";
+import { For } from "solid-js";
 import type { JSX } from "solid-js";
 
 export default {
   title: "Previews",
 };
 
-type PreviewFile = File & {
-  preview: string;
-};
-
 const thumbsContainer: JSX.CSSProperties = {
   display: 'flex',
   "flex-direction": 'row',
@@ -42,39 +38,57 @@ const img: JSX.CSSProperties = {
 };
 
 export function Usage() {
-  const [files, setFiles] = createSignal<PreviewFile[]>([]);
-  
-  const { getRootProps, getInputProps } = useDropzone({
+  const { getRootProps, getInputProps, acceptedFiles, previewUrl } = useDropzone({
     accept: {
       'image/*': []
-    },
-    onDrop: acceptedFiles => {
-      setFiles(acceptedFiles.map(file => Object.assign(file, {
-        preview: URL.createObjectURL(file)
-      })));
     }
   });
 
-  createEffect(() => {
-    const currentFiles = files();
-    onCleanup(() => {
-      currentFiles.forEach(file => URL.revokeObjectURL(file.preview));
-    });
+  return (
+    <section class="container">
+      <div {...getRootProps({ class: 'dropzone' })}>
+        <input {...getInputProps()} />
+        <p>Drag 'n' drop some files here, or click to select files</p>
+      </div>
+      <aside style={thumbsContainer}>
+        <For each={acceptedFiles()}>
+          {(file) => (
+            <div style={thumb}>
+              <div style={thumbInner}>
+                <img
+                  src={previewUrl(file)}
+                  style={img}
+                />
+              </div>
+            </div>
+          )}
+        </For>
+      </aside>
+    </section>
+  );
+}
+
+export function Thumbnails() {
+  const { getRootProps, getInputProps, acceptedFiles, thumbnail } = useDropzone({
+    accept: {
+      'image/*': []
+    },
+    thumbnailSize: 100
   });
 
   return (
     <section class="container">
       <div {...getRootProps({ class: 'dropzone' })}>
         <input {...getInputProps()} />
-        <p>Drag 'n' drop some files here, or click to select files</p>
+        <p>Drag 'n' drop some large photos here, or click to select files</p>
       </div>
       <aside style={thumbsContainer}>
-        <For each={files()}>
+        <For each={acceptedFiles()}>
           {(file) => (
             <div style={thumb}>
               <div style={thumbInner}>
                 <img
-                  src={file.preview}
+                  src={thumbnail(file)}
                   style={img}
                 />
               </div>
@@ -84,4 +98,4 @@ export function Usage() {
       </aside>
     </section>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,187 @@
+import { describe, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer } from 'http';
+import { createRoot, createSignal } from 'solid-js';
+import { createUploadQueue } from '../upload';
+import { createTusUploader } from './index';
+
+describe("createTusUploader()", () => {
+  /**
+   * @type {import('http').Server}
+   */
+  let server;
+  let endpoint;
+  let uploads;
+  let requests;
+  // Lets a test fail the n-th PATCH request to simulate an interrupted upload
+  let failPatch;
+
+  beforeAll(async () => {
+    // A minimal tus 1.0 server implementing creation, PATCH and HEAD
+    server = createServer((req, res) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Expose-Headers", "Location, Upload-Offset, Upload-Length, Tus-Resumable");
+      if (req.method === "OPTIONS") {
+        res.setHeader("Access-Control-Allow-Methods", "POST, PATCH, HEAD");
+        res.setHeader("Access-Control-Allow-Headers", req.headers["access-control-request-headers"] || "");
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      const chunks = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = Buffer.concat(chunks);
+        requests.push({ method: req.method, url: req.url, headers: req.headers, size: body.length });
+        res.setHeader("Tus-Resumable", "1.0.0");
+
+        if (req.method === "POST") {
+          const id = `${uploads.size + 1}`;
+          uploads.set(id, {
+            length: Number(req.headers["upload-length"]),
+            metadata: req.headers["upload-metadata"],
+            data: Buffer.alloc(0),
+          });
+          res.setHeader("Location", `/files/${id}`);
+          res.writeHead(201);
+          res.end();
+          return;
+        }
+
+        const upload = uploads.get(req.url.replace("/files/", ""));
+        if (!upload) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+
+        if (req.method === "PATCH") {
+          if (--failPatch === 0) {
+            res.writeHead(500);
+            res.end();
+            return;
+          }
+          if (Number(req.headers["upload-offset"]) !== upload.data.length) {
+            res.writeHead(409);
+            res.end();
+            return;
+          }
+          upload.data = Buffer.concat([upload.data, body]);
+        }
+        res.setHeader("Upload-Offset", String(upload.data.length));
+        res.setHeader("Upload-Length", String(upload.length));
+        res.writeHead(req.method === "PATCH" ? 204 : 200);
+        res.end();
+      });
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${server.address().port}/files/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    uploads = new Map();
+    requests = [];
+    failPatch = 0;
+  });
+
+  const createStorage = () => {
+    const items = new Map();
+    return {
+      items,
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => items.set(key, value),
+      removeItem: (key) => items.delete(key),
+    };
+  };
+
+  const createQueue = (files, options, queueOptions) => {
+    const [acceptedFiles] = createSignal(files);
+    let queue, dispose;
+    createRoot((d) => {
+      dispose = d;
+      queue = createUploadQueue(
+        { acceptedFiles },
+        { uploader: createTusUploader({ endpoint, ...options }), retryDelay: 10, ...queueOptions }
+      );
+    });
+    return { queue, dispose };
+  };
+
+  const waitForStatus = (queue, file, status) =>
+    vi.waitFor(() => expect(queue.status(file)).toBe(status), { timeout: 3000 });
+
+  it("creates the upload and sends it in chunks", async () => {
+    const file = new File(["0123456789abcdef"], "video.mp4", { type: "video/mp4" });
+    const storage = createStorage();
+    const { queue, dispose } = createQueue([file], { chunkSize: 6, storage });
+
+    await waitForStatus(queue, file, "success");
+
+    expect(requests.map(({ method, size }) => [method, size])).toEqual([
+      ["POST", 0],
+      ["PATCH", 6],
+      ["PATCH", 6],
+      ["PATCH", 4],
+    ]);
+    expect(requests[0].headers["tus-resumable"]).toBe("1.0.0");
+    expect(requests[0].headers["upload-length"]).toBe("16");
+    expect(requests[0].headers["upload-metadata"]).toBe(
+      `filename ${btoa("video.mp4")},filetype ${btoa("video/mp4")}`
+    );
+    expect(requests[2].headers["upload-offset"]).toBe("6");
+    expect(requests[2].headers["content-type"]).toBe("application/offset+octet-stream");
+    expect(uploads.get("1").data.toString()).toBe("0123456789abcdef");
+    expect(queue.progress(file)).toBe(1);
+    expect(storage.items.size).toBe(0);
+    dispose();
+  });
+
+  it("resumes an interrupted upload from the offset reported by HEAD", async () => {
+    failPatch = 2;
+    const file = new File(["0123456789abcdef"], "video.mp4", { type: "video/mp4" });
+    const storage = createStorage();
+    const { queue, dispose } = createQueue([file], { chunkSize: 6, storage }, { retries: 1 });
+
+    await waitForStatus(queue, file, "success");
+
+    expect(requests.map(({ method }) => method)).toEqual(["POST", "PATCH", "PATCH", "HEAD", "PATCH", "PATCH"]);
+    expect(requests[4].headers["upload-offset"]).toBe("6");
+    expect(uploads.size).toBe(1);
+    expect(uploads.get("1").data.toString()).toBe("0123456789abcdef");
+    dispose();
+  });
+
+  it("continues an upload remembered under the file fingerprint", async () => {
+    const file = new File(["0123456789"], "video.mp4", { type: "video/mp4" });
+    uploads.set("7", { length: 10, data: Buffer.from("01234") });
+    const storage = createStorage();
+    storage.setItem("video", `${endpoint}7`);
+    const { queue, dispose } = createQueue([file], { storage, fingerprint: (f) => f.name.split(".")[0] });
+
+    await waitForStatus(queue, file, "success");
+
+    expect(requests.map(({ method, size }) => [method, size])).toEqual([
+      ["HEAD", 0],
+      ["PATCH", 5],
+    ]);
+    expect(uploads.get("7").data.toString()).toBe("0123456789");
+    dispose();
+  });
+
+  it("starts over if the server no longer knows the remembered upload", async () => {
+    const file = new File(["0123456789"], "video.mp4");
+    const storage = createStorage();
+    storage.setItem("video", `${endpoint}gone`);
+    const { queue, dispose } = createQueue([file], { storage, fingerprint: () => "video" });
+
+    await waitForStatus(queue, file, "success");
+
+    expect(requests.map(({ method }) => method)).toEqual(["HEAD", "POST", "PATCH"]);
+    expect(uploads.get("1").data.toString()).toBe("0123456789");
+    dispose();
+  });
+});
@@ -0,0 +1,149 @@
+import { TusStorage, TusUploaderOptions, Uploader } from "../types";
+import { sendRequest, UploadError } from "../upload/xhr";
+
+const TUS_VERSION = "1.0.0";
+
+const defaultOptions = {
+  chunkSize: Infinity,
+  removeFingerprintOnSuccess: true,
+};
+
+/**
+ * Creates an uploader for `createUploadQueue()` that speaks the tus 1.0 resumable upload protocol:
+ * https://tus.io/protocols/resumable-upload
+ *
+ * The upload URL of each file is remembered under the file's fingerprint,
+ * so an interrupted upload continues where it left off, even after a reload.
+ */
+export function createTusUploader(options: TusUploaderOptions): Uploader {
+  const opts = { ...defaultOptions, ...options };
+  const storage = opts.storage || defaultStorage();
+  const fingerprint = opts.fingerprint || ((file: File) => defaultFingerprint(file, opts.endpoint));
+
+  const request = (method: string, url: string, signal: AbortSignal, headers: Record<string, string> = {}, body?: Blob) =>
+    sendRequest({
+      method,
+      url,
+      headers: { ...opts.headers, ...headers, "Tus-Resumable": TUS_VERSION },
+      withCredentials: opts.withCredentials,
+      body,
+      signal,
+    });
+
+  // Ask the server how much of a previous upload it already has, null if it no longer knows the upload
+  const resume = (url: string, signal: AbortSignal) =>
+    request("HEAD", url, signal)
+      .then((xhr) => ({ xhr, offset: readOffset(xhr) }))
+      .catch((e: Error) => {
+        if (e instanceof UploadError && e.status >= 400 && e.status < 500) {
+          return null;
+        }
+        throw e;
+      });
+
+  const create = (file: File, signal: AbortSignal) =>
+    request("POST", opts.endpoint, signal, {
+      "Upload-Length": String(file.size),
+      "Upload-Metadata": encodeMetadata({
+        filename: file.name,
+        filetype: file.type,
+        ...(opts.metadata ? opts.metadata(file) : {}),
+      }),
+    }).then((xhr) => {
+      const location = xhr.getResponseHeader("Location");
+      if (!location) {
+        throw new UploadError(`POST ${opts.endpoint} did not return an upload Location`, xhr.status);
+      }
+      return { xhr, url: new URL(location, opts.endpoint).toString() };
+    });
+
+  return async (file, { signal, onProgress }) => {
+    const key = fingerprint(file);
+    const storedUrl = storage.getItem(key);
+    const resumed = storedUrl ? await resume(storedUrl, signal) : null;
+    let url: string;
+    let xhr: XMLHttpRequest;
+    let offset: number;
+
+    if (storedUrl && resumed) {
+      ({ xhr, offset } = resumed);
+      url = storedUrl;
+    } else {
+      ({ xhr, url } = await create(file, signal));
+      offset = 0;
+      storage.setItem(key, url);
+    }
+    onProgress(file.size ? offset / file.size : 0);
+
+    while (offset < file.size) {
+      const start = offset;
+      const chunk = file.slice(start, Math.min(start + opts.chunkSize, file.size));
+      xhr = await sendRequest({
+        method: "PATCH",
+        url,
+        headers: {
+          ...opts.headers,
+          "Tus-Resumable": TUS_VERSION,
+          "Upload-Offset": String(start),
+          "Content-Type": "application/offset+octet-stream",
+        },
+        withCredentials: opts.withCredentials,
+        body: chunk,
+        signal,
+        onProgress: (loaded) => onProgress((start + loaded) / file.size),
+      });
+      offset = readOffset(xhr);
+      if (offset <= start) {
+        throw new UploadError(`PATCH ${url} did not advance the Upload-Offset`, xhr.status);
+      }
+      onProgress(offset / file.size);
+    }
+
+    if (opts.removeFingerprintOnSuccess) {
+      storage.removeItem(key);
+    }
+    return xhr;
+  };
+}
+
+function readOffset(xhr: XMLHttpRequest): number {
+  const offset = parseInt(xhr.getResponseHeader("Upload-Offset") || "", 10);
+  if (isNaN(offset)) {
+    throw new UploadError("The server response is missing a valid Upload-Offset", xhr.status);
+  }
+  return offset;
+}
+
+function defaultFingerprint(file: File, endpoint: string): string {
+  return ["tus", endpoint, file.name, file.type, file.size, file.lastModified].join("::");
+}
+
+// Upload-Metadata is a comma separated list of `key base64(value)` pairs
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(",");
+}
+
+function toBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function defaultStorage(): TusStorage {
+  try {
+    if (typeof localStorage !== "undefined") {
+      return localStorage;
+    }
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+  }
+  const memory = new Map<string, string>();
+  return {
+    getItem: (key) => memory.get(key) ?? null,
+    setItem: (key, value) => memory.set(key, value),
+    removeItem: (key) => memory.delete(key),
+  };
+}
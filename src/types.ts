@@ -1,4 +1,5 @@
 import { Accessor, JSX } from "solid-js";
+import { toFileWithPath } from "./utils";
 
 declare module 'solid-js' {
   namespace JSX {
@@ -13,26 +14,81 @@ export enum ErrorCode {
   FileTooLarge = "file-too-large",
   FileTooSmall = "file-too-small",
   TooManyFiles = "too-many-files",
+  FileDuplicate = "file-duplicate",
+  FileTypeMismatch = "file-type-mismatch",
+  ImageTooSmall = "image-too-small",
+  ImageTooLarge = "image-too-large",
+  ImageTooManyMegapixels = "image-too-many-megapixels",
+  ImageInvalidAspectRatio = "image-invalid-aspect-ratio",
+  TotalSizeExceeded = "total-size-exceeded",
+  ValidatorError = "validator-error",
+  FileUnreadable = "file-unreadable",
 }
 
-export interface FileError {
+// The details of the built-in errors, by error code
+export interface FileErrorDetails {
+  "file-invalid-type": { accept: string | undefined; actualType: string };
+  "file-too-large": { maxSize: number; actualSize: number };
+  "file-too-small": { minSize: number; actualSize: number };
+  "too-many-files": { maxFiles: number; count: number };
+  "file-duplicate": Record<string, never>;
+  // `actualType` is null when the content is in no format the sniffer recognizes
+  "file-type-mismatch": { accept: string[]; actualType: string | null };
+  "image-too-small": { dimension: "width" | "height"; limit: number; width: number; height: number };
+  "image-too-large": { dimension: "width" | "height"; limit: number; width: number; height: number };
+  "image-too-many-megapixels": { maxMegapixels: number; megapixels: number };
+  "image-invalid-aspect-ratio": { aspectRatio: number; actualAspectRatio: number };
+  "total-size-exceeded": { maxTotalSize: number; totalSize: number };
+  // What the validator threw
+  "validator-error": { error: unknown };
+  // What reading the file content failed with
+  "file-unreadable": { error: unknown };
+}
+
+// Narrow the code with `isFileError()` to get typed details
+export interface FileError<K extends string = ErrorCode | string> {
   message: string;
-  code: ErrorCode | string;
+  code: K;
+  details?: K extends keyof FileErrorDetails ? FileErrorDetails[K] : unknown;
 }
 
+// Either a string with `{name}` placeholders for the details, or a function of them
+export type ErrorMessages = {
+  [K in keyof FileErrorDetails]?: string | ((details: FileErrorDetails[K]) => string);
+};
+
+export type ValidatorResult = FileError | FileError[] | null;
+
 export interface FileRejection {
   file: File;
   errors: FileError[];
 }
 
+// Limits of one accepted type, they take precedence over the `minSize`, `maxSize` and `maxFiles` props
+export interface AcceptEntry {
+  extensions: string[];
+  minSize?: number;
+  maxSize?: number;
+  maxFiles?: number;
+}
+
 export interface Accept {
-  [key: string]: string[];
+  [key: string]: string[] | AcceptEntry;
 }
 
-export type DropEvent = Event | Array<FileSystemFileHandle> | DataTransfer;
+export type DuplicateStrategy = "allow" | "ignore" | "reject";
+
+export type DuplicateComparison = "metadata" | "content";
+
+export type OverflowStrategy = "reject-all" | "keep-first" | "keep-last";
+
+export type TotalSizeStrategy = "reject-all" | "keep-first";
+
+export type DropEvent = Event | Array<FileSystemFileHandle | FileSystemDirectoryHandle> | DataTransfer;
 
 export interface DropzoneRef {
   open: () => void;
+  openDirectory: () => void;
 }
 
 export interface DropzoneRootProps {
@@ -46,6 +102,7 @@ export interface DropzoneRootProps {
   onDragOver?: (event: DragEvent) => void;
   onDragLeave?: (event: DragEvent) => void;
   onDrop?: (event: DragEvent) => void;
+  onPaste?: (event: ClipboardEvent) => void;
   [key: string]: any;
 }
 
@@ -55,11 +112,17 @@ export interface DropzoneInputProps
 }
 
 export interface DropzoneState {
-  isFocused: () => boolean;
-  isFileDialogActive: boolean;
-  isDragActive: () => boolean;
+  isFocused: Accessor<boolean>;
+  isFileDialogActive: Accessor<boolean>;
+  isDragActive: Accessor<boolean>;
   isDragAccept: Accessor<boolean>;
   isDragReject: Accessor<boolean>;
+  // Whether files are being dragged anywhere over the page, with {windowDrop}
+  isDragOverWindow: Accessor<boolean>;
+  // The number and the MIME type of each of the files being dragged over the dropzone
+  dragItemCount: Accessor<number>;
+  dragItemTypes: Accessor<string[]>;
+  isValidating: Accessor<boolean>;
   acceptedFiles: Accessor<File[]>;
   fileRejections: Accessor<FileRejection[]>;
 }
@@ -68,29 +131,78 @@ export interface DropzoneMethods {
   getRootProps: (props?: DropzoneRootProps) => DropzoneRootProps;
   getInputProps: (props?: DropzoneInputProps) => DropzoneInputProps;
   open: () => void;
-  rootRef: HTMLElement | undefined;
-  inputRef: HTMLInputElement | undefined;
+  openDirectory: () => void;
+  removeFile: (file: File) => void;
+  removeRejection: (file: File) => void;
+  clear: () => void;
+  // Object URL of an accepted file, revoked when the file is removed from `acceptedFiles` or the owner is disposed
+  previewUrl: (file: File) => string;
+  // Object URL of a downscaled copy of an accepted image, undefined until generated or if the file is not an image
+  thumbnail: (file: File) => string | undefined;
+  // The accepted files under `fieldName`, named by their path relative to the dropped folder
+  toFormData: (fieldName: string) => FormData;
+  // The elements given the props of getRootProps() and getInputProps(), once they are rendered
+  rootRef: Accessor<HTMLElement | undefined>;
+  inputRef: Accessor<HTMLInputElement | undefined>;
 }
 
 export type DropzoneHookResult = DropzoneState & DropzoneMethods;
 
-export interface DropzoneProps {
+export interface ImageConstraints {
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  maxMegapixels?: number;
+  // Width divided by height, e.g. 16 / 9
+  aspectRatio?: number;
+  // Allowed relative deviation from `aspectRatio`, 0.01 by default
+  aspectRatioTolerance?: number;
+}
+
+export interface DropzoneProps extends ImageConstraints {
   ref?: Partial<DropzoneRef>; 
   accept?: Accept;
   multiple?: boolean;
   preventDropOnDocument?: boolean;
+  // Accept files dropped anywhere on the page, not only on the root
+  windowDrop?: boolean;
   noClick?: boolean;
   noKeyboard?: boolean;
   noDrag?: boolean;
   noDragEventsBubbling?: boolean;
+  // Only the innermost dropzone under the pointer reacts to the drag and receives the drop,
+  // among the nested dropzones which all set this
+  innermostOnly?: boolean;
   minSize?: number;
   maxSize?: number;
   maxFiles?: number;
+  // Reject every dropped file when there are too many ("reject-all"),
+  // or only the excess ones, keeping the first ("keep-first") or the last ("keep-last") dropped files
+  overflowStrategy?: OverflowStrategy;
+  // Combined size in bytes of the accepted files, including the current selection with `accumulate`.
+  // A batch over the limit is rejected as a whole ("reject-all"), or accepted in drop order while it fits ("keep-first")
+  maxTotalSize?: number;
+  totalSizeStrategy?: TotalSizeStrategy;
+  // Add the files of each drop to the current selection instead of replacing it
+  accumulate?: boolean;
+  // Drop ("ignore") or reject files already in the batch or the selection, compared by name, size and
+  // lastModified ("metadata") or by a hash of their contents ("content")
+  duplicateStrategy?: DuplicateStrategy;
+  duplicateComparison?: DuplicateComparison;
   disabled?: boolean;
-  getFilesFromEvent?: (event: DropEvent) => Promise<FileWithPath[]>;
+  // `signal` is aborted once a newer drop or selection arrives, the files it resolves to are then ignored
+  getFilesFromEvent?: (event: DropEvent, signal?: AbortSignal) => Promise<FileWithPath[]>;
   onFileDialogCancel?: () => void;
   onFileDialogOpen?: () => void;
   useFsAccessApi?: boolean;
+  // Pasted files go through the same validation and callbacks as drops, the callbacks receive the `paste` event
+  usePaste?: boolean;
+  // Accept links, images and text dragged from web pages. Each URL is turned into a file by `fetchUrl`
+  // (`fetch` by default) and validated like a dropped file, text without URLs goes to `onDropText`
+  acceptLinks?: boolean;
+  fetchUrl?: (url: string, signal?: AbortSignal) => Promise<File>;
+  onDropText?: (text: string, event: DragEvent) => void;
   autoFocus?: boolean;
   onDragEnter?: (event: DragEvent) => void;
   onDragLeave?: (event: DragEvent) => void;
@@ -99,26 +211,94 @@ export interface DropzoneProps {
   onDropAccepted?: <T extends FileWithPath>(files: T[], event: DropEvent | null) => void;
   onDropRejected?: (fileRejections: FileRejection[], event: DropEvent | null) => void;
   onError?: (error: Error) => void;
-  validator?: (file: File) => FileError | FileError[] | null;
+  // Replace the English messages of the built-in errors, e.g. for translations
+  messages?: ErrorMessages;
+  // Check the first bytes of each file against the MIME types in `accept`, instead of trusting its type and extension
+  sniffContent?: boolean;
+  // Longest edge in pixels of the images returned by `thumbnail(file)`, 200 by default
+  thumbnailSize?: number;
+  // Async validators run on drop, `isValidating()` is true until they settle
+  validator?: (file: File) => ValidatorResult | Promise<ValidatorResult>;
   children?: 
     | JSX.Element           // allow normal JSX children
     | ((state: DropzoneHookResult) => JSX.Element);
 }
 
+export type UploadStatus = "queued" | "uploading" | "success" | "error" | "canceled";
+
+export interface UploaderContext {
+  signal: AbortSignal;
+  onProgress: (progress: number) => void;
+}
+
+export type Uploader = (file: File, context: UploaderContext) => Promise<XMLHttpRequest>;
+
+export interface UploadQueueOptions {
+  url?: string | ((file: File) => string);
+  method?: string;
+  fieldName?: string;
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  concurrency?: number;
+  retries?: number;
+  retryDelay?: number;
+  uploader?: Uploader;
+  onSuccess?: (file: File, xhr: XMLHttpRequest) => void;
+  onError?: (file: File, error: Error) => void;
+}
+
+export interface TusStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export interface TusUploaderOptions {
+  endpoint: string;
+  chunkSize?: number;
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  metadata?: (file: File) => Record<string, string>;
+  fingerprint?: (file: File) => string;
+  storage?: TusStorage;
+  removeFingerprintOnSuccess?: boolean;
+}
+
+export interface UploadQueue {
+  files: Accessor<File[]>;
+  progress: (file: File) => number;
+  status: (file: File) => UploadStatus | undefined;
+  error: (file: File) => Error | undefined;
+  isUploading: Accessor<boolean>;
+  add: (files: File[]) => void;
+  cancel: (file: File) => void;
+  cancelAll: () => void;
+  retry: (file: File) => void;
+  remove: (file: File) => void;
+}
+
 export type GenericEventHandler = (event: any, ...args: any[]) => void;
 
 export interface FileWithPath extends File {
   path?: string;
 }
 
-export async function fromEvent(eventOrHandles: Event | FileSystemFileHandle[]): Promise<FileWithPath[]> {
+export async function fromEvent(
+  eventOrHandles: Event | Array<FileSystemFileHandle | FileSystemDirectoryHandle>,
+  signal?: AbortSignal
+): Promise<FileWithPath[]> {
   const files: FileWithPath[] = [];
   
-  // Handle FileSystemFileHandle[] (from File System Access API)
+  // Handle FileSystemFileHandle[] and FileSystemDirectoryHandle[] (from File System Access API)
   if (Array.isArray(eventOrHandles)) {
     for (const handle of eventOrHandles) {
-      const file = await handle.getFile();
-      files.push(Object.assign(file, { path: handle.name }));
+      throwIfAborted(signal);
+      if (handle.kind === 'directory') {
+        files.push(...await fromDirectoryHandle(handle as FileSystemDirectoryHandle, `/${handle.name}`, signal));
+      } else {
+        const file = await (handle as FileSystemFileHandle).getFile();
+        files.push(Object.assign(file, { path: handle.name }));
+      }
     }
     return files;
   }
@@ -129,15 +309,30 @@ export async function fromEvent(eventOrHandles: Event | FileSystemFileHandle[]):
     const dropEvent = event as DragEvent;
     if (dropEvent.dataTransfer?.items) {
       // Handle DataTransferItemList
+      // Entries must be read synchronously, the item list is emptied once the event handler returns
+      const pending: Array<FileWithPath | FileSystemEntry> = [];
       for (let i = 0; i < dropEvent.dataTransfer.items.length; i++) {
         const item = dropEvent.dataTransfer.items[i];
         if (item.kind === 'file') {
+          const entry = typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null;
+          if (entry && entry.isDirectory) {
+            pending.push(entry);
+            continue;
+          }
           const file = item.getAsFile();
           if (file) {
-            files.push(Object.assign(file, { path: file.name }));
+            pending.push(Object.assign(file, { path: file.name }));
           }
         }
       }
+      for (const fileOrEntry of pending) {
+        throwIfAborted(signal);
+        if (isFileSystemEntry(fileOrEntry)) {
+          files.push(...await fromDirectoryEntry(fileOrEntry as FileSystemDirectoryEntry, signal));
+        } else {
+          files.push(fileOrEntry);
+        }
+      }
     } else if (dropEvent.dataTransfer?.files) {
       // Handle FileList
       for (let i = 0; i < dropEvent.dataTransfer.files.length; i++) {
@@ -145,16 +340,99 @@ export async function fromEvent(eventOrHandles: Event | FileSystemFileHandle[]):
         files.push(Object.assign(file, { path: file.name }));
       }
     }
+  } else if (event.type === 'paste') {
+    const clipboardData = (event as ClipboardEvent).clipboardData;
+    if (clipboardData?.items) {
+      for (let i = 0; i < clipboardData.items.length; i++) {
+        const item = clipboardData.items[i];
+        if (item.kind === 'file') {
+          const file = item.getAsFile();
+          if (file) {
+            files.push(Object.assign(file, { path: file.name }));
+          }
+        }
+      }
+    } else if (clipboardData?.files) {
+      for (let i = 0; i < clipboardData.files.length; i++) {
+        const file = clipboardData.files[i];
+        files.push(Object.assign(file, { path: file.name }));
+      }
+    }
   } else if (event.type === 'change') {
     const inputEvent = event as Event;
     const target = inputEvent.target as HTMLInputElement;
     if (target?.files) {
       for (let i = 0; i < target.files.length; i++) {
-        const file = target.files[i];
-        files.push(Object.assign(file, { path: file.name }));
+        files.push(toFileWithPath(target.files[i]));
       }
     }
   }
   
   return files;
-}
\ No newline at end of file
+}
+
+// Stop walking once the drop has been superseded, the rejection is an AbortError like fetch()'s
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The file extraction was aborted', 'AbortError');
+  }
+}
+
+function isFileSystemEntry(value: FileWithPath | FileSystemEntry): value is FileSystemEntry {
+  return typeof (value as FileSystemEntry).isDirectory === 'boolean';
+}
+
+// Walk a dropped directory and collect its files with their path relative to the drop, e.g. `/photos/2024/img.jpg`
+async function fromDirectoryEntry(directory: FileSystemDirectoryEntry, signal?: AbortSignal): Promise<FileWithPath[]> {
+  const files: FileWithPath[] = [];
+  for (const entry of await readAllEntries(directory, signal)) {
+    throwIfAborted(signal);
+    if (entry.isDirectory) {
+      files.push(...await fromDirectoryEntry(entry as FileSystemDirectoryEntry, signal));
+    } else if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      files.push(toFileWithPath(file, entry.fullPath));
+    }
+  }
+  return files;
+}
+
+// readEntries() returns the directory contents in batches (100 at a time in Chrome),
+// so it has to be called until it yields an empty batch
+async function readAllEntries(directory: FileSystemDirectoryEntry, signal?: AbortSignal): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    throwIfAborted(signal);
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (!batch.length) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+}
+
+// Walk a picked directory the same way, handles only know their own name so the path is built up while descending
+async function fromDirectoryHandle(
+  directory: FileSystemDirectoryHandle,
+  path: string,
+  signal?: AbortSignal
+): Promise<FileWithPath[]> {
+  const files: FileWithPath[] = [];
+  const handles: AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle> = (directory as any).values();
+  for await (const handle of handles) {
+    throwIfAborted(signal);
+    const handlePath = `${path}/${handle.name}`;
+    if (handle.kind === 'directory') {
+      files.push(...await fromDirectoryHandle(handle as FileSystemDirectoryHandle, handlePath, signal));
+    } else {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      files.push(toFileWithPath(file, handlePath));
+    }
+  }
+  return files;
+}
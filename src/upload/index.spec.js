@@ -0,0 +1,148 @@
+import { describe, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer } from 'http';
+import { createRoot, createSignal } from 'solid-js';
+import { createUploadQueue } from './index';
+
+describe("createUploadQueue()", () => {
+  /**
+   * @type {import('http').Server}
+   */
+  let server;
+  let url;
+  // Status codes to answer the next requests with, 200 once exhausted
+  let responses;
+  let requests;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Headers", "*");
+      if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ method: req.method, url: req.url, body });
+        const status = responses.shift() || 200;
+        if (status === "hang") {
+          return;
+        }
+        res.writeHead(status);
+        res.end();
+      });
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${server.address().port}/upload`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+  });
+
+  const createQueue = (options) => {
+    const [acceptedFiles, setAcceptedFiles] = createSignal([]);
+    let queue, dispose;
+    createRoot((d) => {
+      dispose = d;
+      queue = createUploadQueue({ acceptedFiles }, { url, retryDelay: 10, ...options });
+    });
+    return { queue, setAcceptedFiles, dispose };
+  };
+
+  const waitForStatus = (queue, file, status) =>
+    vi.waitFor(() => expect(queue.status(file)).toBe(status), { timeout: 3000 });
+
+  it("uploads accepted files as multipart form data", async () => {
+    const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+    const { queue, setAcceptedFiles, dispose } = createQueue({ fieldName: "attachment" });
+
+    setAcceptedFiles([file]);
+    expect(queue.files()).toEqual([file]);
+
+    await waitForStatus(queue, file, "success");
+    expect(queue.progress(file)).toBe(1);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe("POST");
+    expect(requests[0].body).toContain('name="attachment"; filename="hello.txt"');
+    expect(requests[0].body).toContain("hello");
+    dispose();
+  });
+
+  it("does not run more uploads at once than {concurrency}", async () => {
+    responses = ["hang", "hang", "hang"];
+    const files = ["a", "b", "c"].map((name) => new File([name], `${name}.txt`));
+    const { queue, setAcceptedFiles, dispose } = createQueue({ concurrency: 2 });
+
+    setAcceptedFiles(files);
+
+    expect(files.map((file) => queue.status(file))).toEqual(["uploading", "uploading", "queued"]);
+
+    queue.cancel(files[0]);
+    expect(queue.status(files[0])).toBe("canceled");
+    expect(queue.status(files[2])).toBe("uploading");
+
+    queue.cancelAll();
+    expect(queue.isUploading()).toBe(false);
+    dispose();
+  });
+
+  it("keeps a retried upload running when the canceled attempt settles", async () => {
+    responses = ["hang", "hang", "hang"];
+    const [first, second] = [new File(["1"], "first.bin"), new File(["2"], "second.bin")];
+    const { queue, setAcceptedFiles, dispose } = createQueue({ concurrency: 1 });
+
+    setAcceptedFiles([first]);
+    queue.cancel(first);
+    queue.retry(first);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    setAcceptedFiles([first, second]);
+
+    expect(queue.status(first)).toBe("uploading");
+    expect(queue.status(second)).toBe("queued");
+
+    queue.cancelAll();
+    dispose();
+  });
+
+  it("retries failed uploads with backoff", async () => {
+    responses = [500, 503];
+    const onSuccess = vi.fn();
+    const file = new File(["data"], "data.bin");
+    const { queue, setAcceptedFiles, dispose } = createQueue({ retries: 2, onSuccess });
+
+    setAcceptedFiles([file]);
+
+    await waitForStatus(queue, file, "success");
+    expect(requests).toHaveLength(3);
+    expect(onSuccess).toHaveBeenCalledWith(file, expect.any(XMLHttpRequest));
+    dispose();
+  });
+
+  it("gives up once {retries} are exhausted or the error is not retryable", async () => {
+    responses = [500, 500, 400];
+    const onError = vi.fn();
+    const [flaky, invalid] = [new File(["1"], "flaky.bin"), new File(["2"], "invalid.bin")];
+    const { queue, setAcceptedFiles, dispose } = createQueue({ retries: 1, concurrency: 1, onError });
+
+    setAcceptedFiles([flaky, invalid]);
+
+    await waitForStatus(queue, invalid, "error");
+    expect(queue.status(flaky)).toBe("error");
+    expect(queue.error(invalid).status).toBe(400);
+    expect(requests).toHaveLength(3);
+    expect(onError).toHaveBeenCalledTimes(2);
+
+    queue.retry(invalid);
+    await waitForStatus(queue, invalid, "success");
+    dispose();
+  });
+});
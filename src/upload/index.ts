@@ -0,0 +1,201 @@
+import { createEffect, createSignal, on, onCleanup, untrack } from "solid-js";
+import { DropzoneState, Uploader, UploadQueue, UploadQueueOptions, UploadStatus } from "../types";
+import { isRetryable, sendRequest } from "./xhr";
+
+interface UploadEntry {
+  file: File;
+  progress: () => number;
+  setProgress: (progress: number) => void;
+  status: () => UploadStatus;
+  setStatus: (status: UploadStatus) => void;
+  error: () => Error | undefined;
+  setError: (error: Error | undefined) => void;
+  controller: AbortController | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const defaultOptions = {
+  method: "POST",
+  fieldName: "file",
+  concurrency: 2,
+  retries: 3,
+  retryDelay: 1000,
+};
+
+/**
+ * Uploads the files accepted by a `useDropzone` instance, a few at a time.
+ * Files are sent as multipart form data to `url` unless a custom `uploader` (e.g. `createTusUploader()`) is given.
+ */
+export function createUploadQueue(
+  dropzone: Pick<DropzoneState, "acceptedFiles">,
+  options: UploadQueueOptions
+): UploadQueue {
+  const opts = { ...defaultOptions, ...options };
+  const upload = opts.uploader || formDataUploader(opts);
+  const [entries, setEntries] = createSignal<UploadEntry[]>([]);
+
+  const findEntry = (file: File) => entries().find((entry) => entry.file === file);
+
+  const createEntry = (file: File): UploadEntry => {
+    const [progress, setProgress] = createSignal(0);
+    const [status, setStatus] = createSignal<UploadStatus>("queued");
+    const [error, setError] = createSignal<Error | undefined>();
+    return { file, progress, setProgress, status, setStatus, error, setError, controller: null, retryTimer: null };
+  };
+
+  const add = (files: File[]) => {
+    const known = untrack(entries);
+    const added = files
+      .filter((file) => !known.some((entry) => entry.file === file))
+      .map(createEntry);
+    if (added.length) {
+      setEntries([...known, ...added]);
+      pump();
+    }
+  };
+
+  // Start queued uploads until the concurrency limit is reached
+  const pump = () => {
+    const all = untrack(entries);
+    let active = all.filter((entry) => entry.controller !== null || entry.retryTimer !== null).length;
+    for (const entry of all) {
+      if (active >= opts.concurrency) {
+        return;
+      }
+      if (untrack(entry.status) === "queued" && !entry.controller && !entry.retryTimer) {
+        active++;
+        run(entry, 0);
+      }
+    }
+  };
+
+  const run = (entry: UploadEntry, attempt: number) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    entry.retryTimer = null;
+    entry.setStatus("uploading");
+    entry.setProgress(0);
+
+    upload(entry.file, { signal: controller.signal, onProgress: entry.setProgress })
+      .then((xhr) => {
+        // A canceled upload may have been retried already, the entry then belongs to the new attempt
+        if (entry.controller !== controller) {
+          return;
+        }
+        entry.controller = null;
+        entry.setProgress(1);
+        entry.setStatus("success");
+        opts.onSuccess?.(entry.file, xhr);
+        pump();
+      })
+      .catch((error: Error) => {
+        if (entry.controller !== controller || controller.signal.aborted) {
+          return;
+        }
+        entry.controller = null;
+        if (attempt < opts.retries && isRetryable(error)) {
+          // Exponential backoff: retryDelay, 2 * retryDelay, 4 * retryDelay, ...
+          entry.setStatus("queued");
+          entry.retryTimer = setTimeout(() => run(entry, attempt + 1), opts.retryDelay * 2 ** attempt);
+          return;
+        }
+        entry.setError(error);
+        entry.setStatus("error");
+        opts.onError?.(entry.file, error);
+        pump();
+      });
+  };
+
+  const stop = (entry: UploadEntry) => {
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    if (entry.controller) {
+      entry.controller.abort();
+      entry.controller = null;
+    }
+  };
+
+  const cancel = (file: File) => {
+    const entry = untrack(() => findEntry(file));
+    if (!entry || entry.status() === "success") {
+      return;
+    }
+    stop(entry);
+    entry.setStatus("canceled");
+    pump();
+  };
+
+  const cancelAll = () => {
+    untrack(entries).forEach((entry) => cancel(entry.file));
+  };
+
+  const retry = (file: File) => {
+    const entry = untrack(() => findEntry(file));
+    if (!entry || (entry.status() !== "error" && entry.status() !== "canceled")) {
+      return;
+    }
+    entry.setError(undefined);
+    entry.setProgress(0);
+    entry.setStatus("queued");
+    pump();
+  };
+
+  const remove = (file: File) => {
+    const entry = untrack(() => findEntry(file));
+    if (entry) {
+      stop(entry);
+      setEntries(untrack(entries).filter((e) => e !== entry));
+      pump();
+    }
+  };
+
+  createEffect(on(dropzone.acceptedFiles, (files) => add(files)));
+
+  onCleanup(() => {
+    untrack(entries).forEach(stop);
+  });
+
+  return {
+    files: () => entries().map((entry) => entry.file),
+    progress: (file) => findEntry(file)?.progress() ?? 0,
+    status: (file) => findEntry(file)?.status(),
+    error: (file) => findEntry(file)?.error(),
+    isUploading: () => entries().some((entry) => {
+      const status = entry.status();
+      return status === "uploading" || status === "queued";
+    }),
+    add,
+    cancel,
+    cancelAll,
+    retry,
+    remove,
+  };
+}
+
+// The default uploader posts each file as multipart form data
+function formDataUploader(opts: UploadQueueOptions & typeof defaultOptions): Uploader {
+  return (file, { signal, onProgress }) => {
+    if (!opts.url) {
+      return Promise.reject(new Error("createUploadQueue() needs either a {url} or an {uploader}"));
+    }
+    const body = new FormData();
+    body.append(opts.fieldName, file, file.name);
+    return sendRequest({
+      method: opts.method,
+      url: typeof opts.url === "function" ? opts.url(file) : opts.url,
+      headers: opts.headers,
+      withCredentials: opts.withCredentials,
+      body,
+      signal,
+      onProgress: (loaded, total) => {
+        if (total > 0) {
+          onProgress(loaded / total);
+        }
+      },
+    });
+  };
+}
+
+export { UploadError } from "./xhr";
@@ -0,0 +1,54 @@
+import { describe, beforeAll, afterAll, vi } from 'vitest';
+import { createServer } from 'http';
+import { sendRequest, UploadError } from './xhr';
+
+describe("sendRequest()", () => {
+  /**
+   * @type {import('http').Server}
+   */
+  let server;
+  let url;
+  let requestCount = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requestCount++;
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.writeHead(200);
+      res.end();
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${server.address().port}/upload`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("rejects without sending if the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const before = requestCount;
+
+    const request = sendRequest({ method: "POST", url, body: "data", signal: controller.signal });
+
+    await expect(request).rejects.toBeInstanceOf(UploadError);
+    await expect(request).rejects.toMatchObject({ status: 0 });
+    expect(requestCount).toBe(before);
+  });
+
+  it("removes its abort listener once the request settles", async () => {
+    const controller = new AbortController();
+    const addEventListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeEventListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    await sendRequest({ method: "POST", url, body: "a", signal: controller.signal });
+    await sendRequest({ method: "POST", url, body: "b", signal: controller.signal });
+
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+    expect(removeEventListener.mock.calls.map(([type, listener]) => [type, listener])).toEqual(
+      addEventListener.mock.calls.map(([type, listener]) => [type, listener])
+    );
+  });
+});
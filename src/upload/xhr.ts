@@ -0,0 +1,83 @@
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+export interface SendRequestOptions {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: XMLHttpRequestBodyInit | null;
+  withCredentials?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// Resolves with the request once it completes with a 2xx status, rejects with an UploadError otherwise
+export function sendRequest({
+  method,
+  url,
+  headers,
+  body = null,
+  withCredentials,
+  signal,
+  onProgress
+}: SendRequestOptions): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadError(`${method} ${url} was canceled`, 0));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url, true);
+    xhr.withCredentials = !!withCredentials;
+    Object.entries(headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    // The same signal may be shared by many requests, e.g. the chunks of a tus upload
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    if (onProgress) {
+      xhr.upload.onprogress = (event: ProgressEvent) => {
+        if (event.lengthComputable) {
+          onProgress(event.loaded, event.total);
+        }
+      };
+    }
+    xhr.onload = () => {
+      settle();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr);
+      } else {
+        reject(new UploadError(`${method} ${url} failed with status ${xhr.status}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new UploadError(`${method} ${url} failed`, 0));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new UploadError(`${method} ${url} was canceled`, 0));
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    xhr.send(body);
+  });
+}
+
+// Network failures, timeouts, throttling and server errors are worth another try, other client errors are not
+export function isRetryable(error: Error): boolean {
+  if (!(error instanceof UploadError)) {
+    return false;
+  }
+  const { status } = error;
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
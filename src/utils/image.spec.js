@@ -0,0 +1,164 @@
+import { afterEach, describe, vi } from 'vitest';
+import { createThumbnail, fitDimensions, hasImageConstraints, imageMatchDimensions, readImageDimensions } from './image';
+
+const ascii = (text) => Array.from(text, (char) => char.charCodeAt(0));
+const uint16BE = (value) => [value >> 8, value & 0xff];
+const uint16LE = (value) => [value & 0xff, value >> 8];
+const uint24LE = (value) => [value & 0xff, (value >> 8) & 0xff, value >> 16];
+const uint32BE = (value) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+const png = (width, height) => new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0, 0, 0, 0x0d, ...ascii("IHDR"), ...uint32BE(width), ...uint32BE(height),
+  8, 6, 0, 0, 0, 0, 0, 0, 0
+]);
+
+const gif = (width, height) => new Uint8Array([...ascii("GIF89a"), ...uint16LE(width), ...uint16LE(height), 0, 0, 0]);
+
+const webp = (chunk, payload) => new Uint8Array([
+  ...ascii("RIFF"), 0x24, 0, 0, 0, ...ascii("WEBP"), ...ascii(chunk), 0x10, 0, 0, 0, ...payload,
+  ...new Array(12).fill(0)
+]);
+
+// Lossy: frame tag, start code, then 14 bit dimensions
+const webpLossy = (width, height) => webp("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, ...uint16LE(width), ...uint16LE(height)]);
+
+// Lossless: signature, then width - 1 and height - 1 packed in 14 bits each
+const webpLossless = (width, height) => {
+  const bits = (width - 1) | ((height - 1) << 14);
+  return webp("VP8L", [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, (bits >> 24) & 0xff]);
+};
+
+// Extended: flags, reserved bytes, then 24 bit canvas width - 1 and height - 1
+const webpExtended = (width, height) => webp("VP8X", [0, 0, 0, 0, ...uint24LE(width - 1), ...uint24LE(height - 1)]);
+
+// An EXIF segment, with the orientation in a big-endian IFD0 if given, precedes the baseline start of frame
+const exif = (orientation) => orientation === undefined
+  ? [...ascii("Exif"), 0, 0]
+  : [...ascii("Exif"), 0, 0, ...ascii("MM"), 0, 0x2a, ...uint32BE(8), ...uint16BE(1),
+    ...uint16BE(0x0112), ...uint16BE(3), ...uint32BE(1), ...uint16BE(orientation), 0, 0, ...uint32BE(0)];
+
+const jpeg = (width, height, orientation) => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe1, ...uint16BE(2 + exif(orientation).length), ...exif(orientation),
+  0xff, 0xc0, 0, 0x11, 8, ...uint16BE(height), ...uint16BE(width), 3, 0, 0, 0, 0, 0, 0, 0, 0, 0
+]);
+
+const createFile = (data, name = "image", type = "") => new File([data], name, { type });
+
+describe("readImageDimensions()", () => {
+  it("reads the dimensions from the header of supported formats", async () => {
+    expect(await readImageDimensions(createFile(png(640, 480)))).toEqual({ width: 640, height: 480 });
+    expect(await readImageDimensions(createFile(gif(320, 200)))).toEqual({ width: 320, height: 200 });
+    expect(await readImageDimensions(createFile(jpeg(1920, 1080)))).toEqual({ width: 1920, height: 1080 });
+    expect(await readImageDimensions(createFile(webpLossy(800, 600)))).toEqual({ width: 800, height: 600 });
+    expect(await readImageDimensions(createFile(webpLossless(1024, 768)))).toEqual({ width: 1024, height: 768 });
+    expect(await readImageDimensions(createFile(webpExtended(4000, 3000)))).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it("applies the EXIF orientation of JPEGs", async () => {
+    expect(await readImageDimensions(createFile(jpeg(1920, 1080, 3)))).toEqual({ width: 1920, height: 1080 });
+    expect(await readImageDimensions(createFile(jpeg(1920, 1080, 6)))).toEqual({ width: 1080, height: 1920 });
+  });
+
+  it("returns null for other or truncated files", async () => {
+    expect(await readImageDimensions(createFile(ascii("hello world")))).toBeNull();
+    expect(await readImageDimensions(createFile(png(640, 480).subarray(0, 16)))).toBeNull();
+    expect(await readImageDimensions(createFile(jpeg(640, 480).subarray(0, 14)))).toBeNull();
+  });
+});
+
+describe("imageMatchDimensions()", () => {
+  it("accepts images within the constraints", async () => {
+    const file = createFile(png(640, 480));
+    expect(await imageMatchDimensions(file, { minWidth: 640, maxWidth: 1000, minHeight: 100, maxMegapixels: 1 })).toEqual([]);
+    expect(await imageMatchDimensions(file, { aspectRatio: 4 / 3 })).toEqual([]);
+  });
+
+  it("reports every failed constraint", async () => {
+    expect(await imageMatchDimensions(createFile(png(100, 50)), { minWidth: 200, maxHeight: 40 })).toEqual([
+      {
+        code: "image-too-small",
+        message: "Image is narrower than 200 pixels",
+        details: { dimension: "width", limit: 200, width: 100, height: 50 }
+      },
+      {
+        code: "image-too-large",
+        message: "Image is taller than 40 pixels",
+        details: { dimension: "height", limit: 40, width: 100, height: 50 }
+      }
+    ]);
+    expect(await imageMatchDimensions(createFile(png(4000, 3000)), { maxMegapixels: 10, aspectRatio: 16 / 9 })).toEqual([
+      {
+        code: "image-too-many-megapixels",
+        message: "Image is larger than 10 megapixels",
+        details: { maxMegapixels: 10, megapixels: 12 }
+      },
+      {
+        code: "image-invalid-aspect-ratio",
+        message: `Image aspect ratio must be ${16 / 9}`,
+        details: { aspectRatio: 16 / 9, actualAspectRatio: 4 / 3 }
+      }
+    ]);
+  });
+
+  it("applies the aspect ratio tolerance", async () => {
+    const file = createFile(png(1000, 980));
+    expect(await imageMatchDimensions(file, { aspectRatio: 1 })).toHaveLength(1);
+    expect(await imageMatchDimensions(file, { aspectRatio: 1, aspectRatioTolerance: 0.05 })).toEqual([]);
+  });
+
+  it("lets files without readable dimensions pass", async () => {
+    expect(await imageMatchDimensions(createFile(ascii("hello")), { minWidth: 100 })).toEqual([]);
+  });
+});
+
+describe("hasImageConstraints()", () => {
+  it("is true when any constraint is set", () => {
+    expect(hasImageConstraints({})).toBe(false);
+    expect(hasImageConstraints({ aspectRatioTolerance: 0.1 })).toBe(false);
+    expect(hasImageConstraints({ maxMegapixels: 12 })).toBe(true);
+  });
+});
+
+describe("fitDimensions()", () => {
+  it("scales the longest edge down to the size", () => {
+    expect(fitDimensions({ width: 4000, height: 3000 }, 200)).toEqual({ width: 200, height: 150 });
+    expect(fitDimensions({ width: 300, height: 6000 }, 200)).toEqual({ width: 10, height: 200 });
+    expect(fitDimensions({ width: 100, height: 50 }, 200)).toEqual({ width: 100, height: 50 });
+  });
+});
+
+describe("createThumbnail()", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resizes the image while decoding and draws it on an offscreen canvas", async () => {
+    const bitmap = { width: 200, height: 150, close: vi.fn() };
+    const drawImage = vi.fn();
+    const thumbnail = new Blob(["thumbnail"], { type: "image/webp" });
+    const createImageBitmap = vi.fn(async () => bitmap);
+    const OffscreenCanvas = vi.fn(() => ({
+      getContext: () => ({ drawImage }),
+      convertToBlob: async () => thumbnail
+    }));
+    vi.stubGlobal("createImageBitmap", createImageBitmap);
+    vi.stubGlobal("OffscreenCanvas", OffscreenCanvas);
+
+    const file = createFile(png(4000, 3000));
+    expect(await createThumbnail(file, 200)).toBe(thumbnail);
+    expect(createImageBitmap).toHaveBeenCalledWith(file, { resizeWidth: 200, resizeHeight: 150, resizeQuality: "high" });
+    expect(OffscreenCanvas).toHaveBeenCalledWith(200, 150);
+    expect(drawImage).toHaveBeenCalledWith(bitmap, 0, 0, 200, 150);
+    expect(bitmap.close).toHaveBeenCalled();
+  });
+
+  it("returns null when the image cannot be decoded", async () => {
+    vi.stubGlobal("createImageBitmap", vi.fn(async () => {
+      throw new DOMException("The source image could not be decoded.", "InvalidStateError");
+    }));
+
+    expect(await createThumbnail(createFile(ascii("hello")), 200)).toBeNull();
+  });
+});
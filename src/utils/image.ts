@@ -0,0 +1,232 @@
+import { ErrorMessages, FileError, FileErrorDetails, ImageConstraints } from '../types';
+import { ErrorCode, readFileBytes } from './index';
+import { createFileError } from './messages';
+import { sniffFileType } from './sniff';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Covers the PNG IHDR chunk, the GIF logical screen and all WebP headers
+const HEADER_LENGTH = 32;
+
+/**
+ * Read the dimensions of a PNG, JPEG, GIF or WebP image from its header, without decoding it.
+ * Resolves to null for other formats or malformed headers.
+ * The EXIF orientation of JPEGs is applied, so rotated photos report their displayed dimensions.
+ */
+export async function readImageDimensions(file: Blob): Promise<ImageDimensions | null> {
+  const type = await sniffFileType(file);
+  if (type === 'image/jpeg') {
+    return readJpegDimensions(file);
+  }
+
+  const bytes = await readFileBytes(file, 0, HEADER_LENGTH);
+  if (bytes.length < HEADER_LENGTH && type !== 'image/gif') {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (type) {
+    case 'image/png':
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    case 'image/gif':
+      return bytes.length >= 10 ? { width: view.getUint16(6, true), height: view.getUint16(8, true) } : null;
+    case 'image/webp':
+      return readWebpDimensions(bytes, view);
+    default:
+      return null;
+  }
+}
+
+// https://developers.google.com/speed/webp/docs/riff_container
+function readWebpDimensions(bytes: Uint8Array, view: DataView): ImageDimensions | null {
+  const chunk = String.fromCharCode(...Array.from(bytes.subarray(12, 16)));
+  switch (chunk) {
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    case 'VP8L': {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return {
+        width: (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1,
+        height: (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1
+      };
+    default:
+      return null;
+  }
+}
+
+// Walk the JPEG segments up to the start of frame, of the metadata only the EXIF segment is read for its orientation
+async function readJpegDimensions(file: Blob): Promise<ImageDimensions | null> {
+  let offset = 2;
+  let orientation = 1;
+  while (offset + 9 <= file.size) {
+    const segment = await readFileBytes(file, offset, offset + 9);
+    if (segment[0] !== 0xff) {
+      return null;
+    }
+    const marker = segment[1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (segment[5] << 8) | segment[6];
+      const width = (segment[7] << 8) | segment[8];
+      // Orientations 5 to 8 rotate the image by a quarter turn
+      return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+    }
+    const length = (segment[2] << 8) | segment[3];
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(await readFileBytes(file, offset + 4, offset + 2 + length)) || orientation;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// The orientation tag (0x0112) of the first IFD of an APP1 segment, null if it is not EXIF or has no orientation
+// https://www.cipa.jp/std/documents/e/DC-X008-Translation-2019-E.pdf
+function readExifOrientation(data: Uint8Array): number | null {
+  if (String.fromCharCode(...Array.from(data.subarray(0, 6))) !== 'Exif\0\0' || data.length < 14) {
+    return null;
+  }
+  const tiff = new DataView(data.buffer, data.byteOffset + 6, data.byteLength - 6);
+  const littleEndian = tiff.getUint16(0) === 0x4949;
+  const ifd = tiff.getUint32(4, littleEndian);
+  if (ifd + 2 > tiff.byteLength) {
+    return null;
+  }
+  const count = tiff.getUint16(ifd, littleEndian);
+  for (let entry = ifd + 2; entry < ifd + 2 + count * 12 && entry + 10 <= tiff.byteLength; entry += 12) {
+    if (tiff.getUint16(entry, littleEndian) === 0x0112) {
+      return tiff.getUint16(entry + 8, littleEndian);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check an image against the dimension constraints.
+ * Files whose dimensions cannot be read (not an image, or an unsupported format) pass.
+ */
+export async function imageMatchDimensions(
+  file: File,
+  constraints: ImageConstraints,
+  messages?: ErrorMessages
+): Promise<FileError[]> {
+  const dimensions = await readImageDimensions(file);
+  if (!dimensions) {
+    return [];
+  }
+  const { width, height } = dimensions;
+  const { minWidth, maxWidth, minHeight, maxHeight, maxMegapixels, aspectRatio, aspectRatioTolerance = 0.01 } = constraints;
+  const errors: FileError[] = [];
+  const error = <K extends keyof FileErrorDetails>(code: K, details: FileErrorDetails[K]) =>
+    errors.push(createFileError(code, details, messages));
+
+  if (minWidth !== undefined && width < minWidth) {
+    error(ErrorCode.ImageTooSmall, { dimension: 'width', limit: minWidth, width, height });
+  } else if (minHeight !== undefined && height < minHeight) {
+    error(ErrorCode.ImageTooSmall, { dimension: 'height', limit: minHeight, width, height });
+  }
+  if (maxWidth !== undefined && width > maxWidth) {
+    error(ErrorCode.ImageTooLarge, { dimension: 'width', limit: maxWidth, width, height });
+  } else if (maxHeight !== undefined && height > maxHeight) {
+    error(ErrorCode.ImageTooLarge, { dimension: 'height', limit: maxHeight, width, height });
+  }
+  const megapixels = (width * height) / 1e6;
+  if (maxMegapixels !== undefined && megapixels > maxMegapixels) {
+    error(ErrorCode.ImageTooManyMegapixels, { maxMegapixels, megapixels });
+  }
+  const actualAspectRatio = width / height;
+  if (aspectRatio !== undefined && Math.abs(actualAspectRatio - aspectRatio) > aspectRatio * aspectRatioTolerance) {
+    error(ErrorCode.ImageInvalidAspectRatio, { aspectRatio, actualAspectRatio });
+  }
+  return errors;
+}
+
+export function hasImageConstraints(constraints: ImageConstraints): boolean {
+  return [
+    constraints.minWidth,
+    constraints.maxWidth,
+    constraints.minHeight,
+    constraints.maxHeight,
+    constraints.maxMegapixels,
+    constraints.aspectRatio
+  ].some(value => value !== undefined);
+}
+
+// Scale the dimensions down so that the longest edge is at most `size`, never up
+export function fitDimensions({ width, height }: ImageDimensions, size: number): ImageDimensions {
+  const scale = Math.min(1, size / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Downscale an image so that its longest edge is at most `size` pixels.
+ * With `createImageBitmap` and `OffscreenCanvas` the image is decoded and resized off the main thread,
+ * otherwise it is decoded by an `<img>` and drawn on a regular canvas.
+ * Resolves to null for files that cannot be decoded as an image.
+ */
+export async function createThumbnail(file: Blob, size: number): Promise<Blob | null> {
+  try {
+    if (typeof createImageBitmap === 'function') {
+      // Resizing while decoding avoids holding the full size bitmap, when the header tells the target size
+      const dimensions = await readImageDimensions(file);
+      const target = dimensions && fitDimensions(dimensions, size);
+      const bitmap = target
+        ? await createImageBitmap(file, { resizeWidth: target.width, resizeHeight: target.height, resizeQuality: 'high' })
+        : await createImageBitmap(file);
+      try {
+        return await drawThumbnail(bitmap, fitDimensions(bitmap, size));
+      } finally {
+        bitmap.close();
+      }
+    }
+    if (typeof document !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      const url = URL.createObjectURL(file);
+      try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        return await drawThumbnail(image, fitDimensions({ width: image.naturalWidth, height: image.naturalHeight }, size));
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  } catch {
+    // Not an image, or a format the browser cannot decode
+  }
+  return null;
+}
+
+async function drawThumbnail(image: CanvasImageSource, { width, height }: ImageDimensions): Promise<Blob | null> {
+  if (typeof OffscreenCanvas === 'function') {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+    context.drawImage(image, 0, 0, width, height);
+    return canvas.convertToBlob({ type: 'image/webp' });
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  context.drawImage(image, 0, 0, width, height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/webp'));
+}
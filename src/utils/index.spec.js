@@ -81,6 +81,82 @@ describe("utils", () => {
     });
   });
 
+  describe("runValidator()", () => {
+    const file = { name: "a.txt" };
+
+    it("returns the result of the validator", () => {
+      const error = { code: "custom", message: "Custom" };
+      expect(utils.runValidator(file, () => error)).toBe(error);
+    });
+
+    it("turns exceptions and rejections into a validator-error", async () => {
+      const failure = new Error("oops");
+      const onError = vi.fn();
+      const rejection = { code: "validator-error", message: "File could not be validated", details: { error: failure } };
+
+      expect(utils.runValidator(file, () => { throw failure; }, undefined, onError)).toEqual(rejection);
+      expect(await utils.runValidator(file, () => Promise.reject(failure), undefined, onError)).toEqual(rejection);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(failure);
+    });
+  });
+
+  describe("splitOverflow()", () => {
+    it("splits the files within the limit from the excess ones", () => {
+      const files = [1, 2, 3];
+      expect(utils.splitOverflow(files, 2, "keep-first")).toEqual([[1, 2], [3]]);
+      expect(utils.splitOverflow(files, 2, "keep-last")).toEqual([[2, 3], [1]]);
+      expect(utils.splitOverflow(files, 2, "reject-all")).toEqual([[], files]);
+      expect(utils.splitOverflow(files, 3, "reject-all")).toEqual([files, []]);
+    });
+  });
+
+  describe("accept entries", () => {
+    const accept = {
+      "image/*": { extensions: [".png"], maxSize: 100, maxFiles: 1 },
+      "video/*": { extensions: [], maxSize: 1000 },
+      "application/pdf": [".pdf"]
+    };
+    const createFile = (name, size, type) => ({ name, size, type });
+
+    it("lists the extensions of both forms in the accept attr and picker types", () => {
+      expect(utils.acceptPropAsAcceptAttr(accept)).toBe("image/*,.png,video/*,application/pdf,.pdf");
+      expect(utils.pickerOptionsFromAccept(accept).map(option => option.accept)).toEqual([
+        { "image/*": [".png"] },
+        { "video/*": [] },
+        { "application/pdf": [".pdf"] }
+      ]);
+    });
+
+    it("applies the size limits of the matching entry", () => {
+      expect(utils.fileMatchAcceptSize(createFile("a.png", 500, "image/png"), accept, 0, Infinity)).toEqual([
+        false,
+        { code: "file-too-large", message: "File is larger than 100 bytes", details: { maxSize: 100, actualSize: 500 } }
+      ]);
+      expect(utils.fileMatchAcceptSize(createFile("a.mp4", 500, "video/mp4"), accept, 0, 200)[0]).toBe(true);
+      expect(utils.fileMatchAcceptSize(createFile("a.pdf", 500, "application/pdf"), accept, 0, 200)[0]).toBe(false);
+    });
+
+    it("returns the files of entries over their maxFiles", () => {
+      const images = [createFile("a.png", 1, "image/png"), createFile("b.gif", 1, "image/gif")];
+      const pdf = createFile("a.pdf", 1, "application/pdf");
+      expect(utils.filesOverAcceptMaxFiles([images[0], pdf], accept)).toEqual([]);
+      expect(utils.filesOverAcceptMaxFiles([...images, pdf], accept)).toEqual(images);
+      expect(utils.allFilesAccepted({ files: [...images, pdf], multiple: true, acceptMap: accept })).toBe(false);
+    });
+
+    it("returns only the excess files of entries with a keep overflowStrategy", () => {
+      const images = [createFile("a.png", 1, "image/png"), createFile("b.gif", 1, "image/gif")];
+      const pdf = createFile("a.pdf", 1, "application/pdf");
+      expect(utils.filesOverAcceptMaxFiles([...images, pdf], accept, "keep-first")).toEqual([images[1]]);
+      expect(utils.filesOverAcceptMaxFiles([...images, pdf], accept, "keep-last")).toEqual([images[0]]);
+      expect(utils.filesOverAcceptMaxFiles([images[1]], accept, "keep-first", [images[0]])).toEqual([images[1]]);
+      expect(
+        utils.allFilesAccepted({ files: [...images, pdf], multiple: true, acceptMap: accept, overflowStrategy: "keep-first" })
+      ).toBe(true);
+    });
+  });
+
   describe('accepts', () => {
     it('should return true if no acceptedFiles', () => {
       const file = {
@@ -110,6 +186,77 @@ describe("utils", () => {
       const accept = '.txt';
       expect(utils.allFilesAccepted({ files, accept })).toBe(false);
     });
+
+    it('judges the files that would be kept with a keep overflowStrategy', () => {
+      const files = [{ name: 'a.txt' }, { name: 'b.jpeg' }];
+      const accept = '.txt';
+      expect(utils.allFilesAccepted({ files, accept, multiple: true, maxFiles: 1, overflowStrategy: 'keep-first' })).toBe(true);
+      expect(utils.allFilesAccepted({ files, accept, multiple: true, maxFiles: 1, overflowStrategy: 'keep-last' })).toBe(false);
+    });
+
+    it('counts the selected files towards maxFiles', () => {
+      const files = [{ name: 'a.txt' }];
+      expect(utils.allFilesAccepted({ files, multiple: true, maxFiles: 2, selectedCount: 1 })).toBe(true);
+      expect(utils.allFilesAccepted({ files, multiple: true, maxFiles: 2, selectedCount: 2 })).toBe(false);
+      expect(utils.allFilesAccepted({ files, multiple: true, maxFiles: 2, selectedCount: 2, overflowStrategy: 'keep-first' })).toBe(false);
+    });
+
+    it('returns false if the validator throws', () => {
+      const files = [{ name: 'a.txt' }];
+      const validator = () => {
+        throw new Error('oops');
+      };
+      expect(utils.allFilesAccepted({ files, multiple: true, validator })).toBe(false);
+    });
+
+    it('returns false if the files are larger than maxTotalSize together', () => {
+      const files = [{ size: 60 }, { size: 50 }];
+      expect(utils.allFilesAccepted({ files, multiple: true, maxTotalSize: 100 })).toBe(false);
+      expect(utils.allFilesAccepted({ files, multiple: true, maxTotalSize: 110 })).toBe(true);
+    });
+
+    it('judges the files that fit in maxTotalSize if totalSizeStrategy is "keep-first"', () => {
+      const files = [{ size: 60 }, { size: 50 }];
+      expect(utils.allFilesAccepted({ files, multiple: true, maxTotalSize: 100, totalSizeStrategy: 'keep-first' })).toBe(true);
+      expect(utils.allFilesAccepted({ files, multiple: true, maxTotalSize: 50, totalSizeStrategy: 'keep-first' })).toBe(false);
+    });
+  });
+
+  describe('dragItemsAccepted()', () => {
+    it('checks the item types against the MIME types of the accept prop', () => {
+      const accept = { 'image/*': [] };
+      expect(utils.dragItemsAccepted({ types: ['image/png'], accept, multiple: true, maxFiles: 0 })).toBe(true);
+      expect(utils.dragItemsAccepted({ types: ['image/png', 'text/plain'], accept, multiple: true, maxFiles: 0 })).toBe(false);
+    });
+
+    it('does not reject a MIME type miss when the accept prop lists extensions', () => {
+      const accept = { 'application/x-zip-compressed': ['.zip'] };
+      expect(utils.dragItemsAccepted({ types: ['application/zip'], accept, multiple: true, maxFiles: 0 })).toBe(true);
+    });
+
+    it('applies the maxFiles of the accept entries', () => {
+      const accept = { 'image/*': { extensions: [], maxFiles: 1 }, 'text/plain': [] };
+      const types = ['image/png', 'image/gif', 'text/plain'];
+      expect(utils.dragItemsAccepted({ types, accept, multiple: true, maxFiles: 0 })).toBe(false);
+      expect(utils.dragItemsAccepted({ types, accept, multiple: true, maxFiles: 0, overflowStrategy: 'keep-first' })).toBe(true);
+      expect(utils.dragItemsAccepted({ types: ['image/png', 'text/plain'], accept, multiple: true, maxFiles: 0 })).toBe(true);
+    });
+
+    it('accepts items without a type', () => {
+      const accept = { 'image/*': [] };
+      expect(utils.dragItemsAccepted({ types: [''], accept, multiple: true, maxFiles: 0 })).toBe(true);
+    });
+
+    it('returns false if there are more items than allowed', () => {
+      const types = ['image/png', 'image/gif'];
+      expect(utils.dragItemsAccepted({ types, multiple: false, maxFiles: 0 })).toBe(false);
+      expect(utils.dragItemsAccepted({ types, multiple: true, maxFiles: 1 })).toBe(false);
+      expect(utils.dragItemsAccepted({ types, multiple: true, maxFiles: 1, overflowStrategy: 'keep-first' })).toBe(true);
+    });
+
+    it('returns false without items', () => {
+      expect(utils.dragItemsAccepted({ types: [], multiple: true, maxFiles: 0 })).toBe(false);
+    });
   });
 
   describe("isIeOrEdge()", () => {
@@ -1,74 +1,121 @@
-import { FileError, Accept } from '../types';
+import {
+  FileError,
+  Accept,
+  AcceptEntry,
+  ErrorMessages,
+  FileWithPath,
+  OverflowStrategy,
+  TotalSizeStrategy,
+  ValidatorResult
+} from '../types';
+import { createFileError } from './messages';
 
 export const ErrorCode = {
   FileInvalidType: 'file-invalid-type',
   FileTooLarge: 'file-too-large',
   FileTooSmall: 'file-too-small',
-  TooManyFiles: 'too-many-files'
+  TooManyFiles: 'too-many-files',
+  FileDuplicate: 'file-duplicate',
+  FileTypeMismatch: 'file-type-mismatch',
+  ImageTooSmall: 'image-too-small',
+  ImageTooLarge: 'image-too-large',
+  ImageTooManyMegapixels: 'image-too-many-megapixels',
+  ImageInvalidAspectRatio: 'image-invalid-aspect-ratio',
+  TotalSizeExceeded: 'total-size-exceeded',
+  ValidatorError: 'validator-error',
+  FileUnreadable: 'file-unreadable'
 } as const;
 
 export type ErrorCodeType = typeof ErrorCode[keyof typeof ErrorCode];
 
-export const TOO_MANY_FILES_REJECTION: FileError = {
-  code: ErrorCode.TooManyFiles,
-  message: 'Too many files'
-};
-
 // Firefox versions prior to 53 return a bogus MIME type for every file drag, so dragtype checking is discouraged:
 // https://bugzilla.mozilla.org/show_bug.cgi?id=1372340
-export function fileAccepted(file: File, accept?: string): [boolean, FileError | null] {
+export function fileAccepted(file: File, accept?: string, messages?: ErrorMessages): [boolean, FileError | null] {
   const isAcceptable = file.type === 'application/x-moz-file' || accepts(file, accept);
   return [
     isAcceptable,
-    isAcceptable ? null : {
-      code: ErrorCode.FileInvalidType,
-      message: `File type must be ${accept}`
-    }
+    isAcceptable ? null : createFileError(ErrorCode.FileInvalidType, { accept, actualType: file.type }, messages)
   ];
 }
 
-export function fileMatchSize(file: File, minSize?: number, maxSize?: number): [boolean, FileError | null] {
+export function fileMatchSize(file: File, minSize?: number, maxSize?: number, messages?: ErrorMessages): [boolean, FileError | null] {
   if (isDefined(file.size)) {
     if (isDefined(minSize) && isDefined(maxSize)) {
       if (file.size > maxSize!) {
         return [
           false,
-          {
-            code: ErrorCode.FileTooLarge,
-            message: `File is larger than ${maxSize} bytes`
-          }
+          createFileError(ErrorCode.FileTooLarge, { maxSize: maxSize!, actualSize: file.size }, messages)
         ];
       }
       if (file.size < minSize!) {
         return [
           false,
-          {
-            code: ErrorCode.FileTooSmall,
-            message: `File is smaller than ${minSize} bytes`
-          }
+          createFileError(ErrorCode.FileTooSmall, { minSize: minSize!, actualSize: file.size }, messages)
         ];
       }
     } else if (isDefined(minSize) && file.size < minSize!) {
       return [
         false,
-        {
-          code: ErrorCode.FileTooSmall,
-          message: `File is smaller than ${minSize} bytes`
-        }
+        createFileError(ErrorCode.FileTooSmall, { minSize: minSize!, actualSize: file.size }, messages)
       ];
     } else if (isDefined(maxSize) && file.size > maxSize!) {
       return [
         false,
-        {
-          code: ErrorCode.FileTooLarge,
-          message: `File is larger than ${maxSize} bytes`
-        }
+        createFileError(ErrorCode.FileTooLarge, { maxSize: maxSize!, actualSize: file.size }, messages)
       ];
     }
   }
   return [true, null];
 }
 
+export function getTooManyFilesRejection(maxFiles: number, count: number, messages?: ErrorMessages): FileError {
+  return createFileError(ErrorCode.TooManyFiles, { maxFiles, count }, messages);
+}
+
+export function getDuplicateFileRejection(messages?: ErrorMessages): FileError {
+  return createFileError(ErrorCode.FileDuplicate, {}, messages);
+}
+
+export function getTotalSizeRejection(maxTotalSize: number, totalSize: number, messages?: ErrorMessages): FileError {
+  return createFileError(ErrorCode.TotalSizeExceeded, { maxTotalSize, totalSize }, messages);
+}
+
+export function getUnreadableFileRejection(error: unknown, messages?: ErrorMessages): FileError {
+  return createFileError(ErrorCode.FileUnreadable, { error }, messages);
+}
+
+export function totalSize(files: File[]): number {
+  return files.reduce((total, file) => total + file.size, 0);
+}
+
+/**
+ * Run the user validator on a file, turning exceptions and rejected promises into a `validator-error`.
+ * `onError` receives the original error.
+ */
+export function runValidator(
+  file: File,
+  validator: (file: File) => ValidatorResult | PromiseLike<ValidatorResult>,
+  messages?: ErrorMessages,
+  onError?: (error: unknown) => void
+): ValidatorResult | PromiseLike<ValidatorResult> {
+  const toRejection = (error: unknown) => {
+    onError?.(error);
+    return createFileError(ErrorCode.ValidatorError, { error }, messages);
+  };
+  try {
+    const result = validator(file);
+    return isThenable(result) ? Promise.resolve(result).then(undefined, toRejection) : result;
+  } catch (error) {
+    return toRejection(error);
+  }
+}
+
+export function isThenable<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+function noop(): void {}
+
 function isDefined<T>(value: T | undefined | null): value is T {
   return value !== undefined && value !== null;
 }
@@ -99,43 +146,251 @@ export function accepts(file: File, acceptedFiles?: string | string[]): boolean
 export interface AllFilesAcceptedParams {
   files: File[];
   accept?: string;
+  // The accept prop, for the limits of its entries
+  acceptMap?: Accept;
   minSize?: number;
   maxSize?: number;
   multiple: boolean;
   maxFiles: number;
-  validator?: (file: File) => FileError | FileError[] | null;
+  // Files already selected, which count towards `maxFiles`
+  selectedCount?: number;
+  maxTotalSize?: number;
+  totalSizeStrategy?: TotalSizeStrategy;
+  overflowStrategy?: OverflowStrategy;
+  validator?: (file: File) => ValidatorResult | Promise<ValidatorResult>;
+}
+
+// Split the files into the ones within the limit and the excess ones, all of them are excess with "reject-all"
+export function splitOverflow<T>(files: T[], limit: number, strategy: OverflowStrategy): [T[], T[]] {
+  if (files.length <= limit) {
+    return [files, []];
+  }
+  switch (strategy) {
+    case 'keep-first':
+      return [files.slice(0, limit), files.slice(limit)];
+    case 'keep-last':
+      return [files.slice(files.length - limit), files.slice(0, files.length - limit)];
+    default:
+      return [[], files];
+  }
 }
 
 export function allFilesAccepted({
   files,
   accept,
+  acceptMap,
   minSize,
   maxSize,
   multiple,
   maxFiles,
+  selectedCount = 0,
+  maxTotalSize,
+  totalSizeStrategy = 'reject-all',
+  overflowStrategy = 'reject-all',
   validator
 }: AllFilesAcceptedParams): boolean {
-  if (!multiple && files.length > 1 || (multiple && maxFiles >= 1 && files.length > maxFiles)) {
-    return false;
+  const limit = multiple ? maxFiles : 1;
+  if (limit >= 1 && selectedCount + files.length > limit) {
+    if (overflowStrategy === 'reject-all') {
+      return false;
+    }
+    // The excess files are left out on drop, the drag is judged by the files that would be kept
+    [files] = splitOverflow(files, Math.max(0, limit - selectedCount), overflowStrategy);
+    if (!files.length) {
+      return false;
+    }
+  }
+
+  const overTypeLimit = filesOverAcceptMaxFiles(files, acceptMap, overflowStrategy);
+  if (overTypeLimit.length > 0) {
+    if (overflowStrategy === 'reject-all') {
+      return false;
+    }
+    files = files.filter(file => !overTypeLimit.includes(file));
+    if (!files.length) {
+      return false;
+    }
+  }
+
+  if (isDefined(maxTotalSize) && totalSize(files) > maxTotalSize) {
+    if (totalSizeStrategy === 'reject-all') {
+      return false;
+    }
+    // Like on drop, the files are kept until the first one that does not fit
+    let budget = maxTotalSize;
+    files = files.slice(0, files.findIndex(file => (budget -= file.size) < 0));
+    if (!files.length) {
+      return false;
+    }
   }
 
   return files.every(file => {
     const [accepted] = fileAccepted(file, accept);
-    const [sizeMatch] = fileMatchSize(file, minSize, maxSize);
-    const customErrors = validator ? validator(file) : null;
+    const [sizeMatch] = fileMatchAcceptSize(file, acceptMap, minSize, maxSize);
+    let customErrors: ValidatorResult | PromiseLike<ValidatorResult>;
+    try {
+      customErrors = validator ? validator(file) : null;
+    } catch {
+      // Reported on drop
+      return false;
+    }
+    // Async validators can only be awaited on drop
+    if (isThenable(customErrors)) {
+      customErrors.then(undefined, noop);
+      return accepted && sizeMatch;
+    }
     return accepted && sizeMatch && !customErrors;
   });
 }
 
+export interface DragItemsAcceptedParams {
+  types: string[];
+  accept?: Accept;
+  multiple: boolean;
+  maxFiles: number;
+  selectedCount?: number;
+  overflowStrategy?: OverflowStrategy;
+}
+
+// The MIME type of each dragged file, which is all that is known about them until the drop
+export function getDragItemTypes(dataTransfer: DataTransfer): string[] {
+  return Array.prototype.filter
+    .call(dataTransfer.items || [], (item: DataTransferItem) => item.kind === 'file')
+    .map((item: DataTransferItem) => item.type);
+}
+
+// Judge a drag by the types of its items, the names are unknown so an item is only rejected when its type misses the
+// MIME types of the accept prop and no entry lists extensions it could match by, items without a type get the benefit
+// of the doubt
+export function dragItemsAccepted({
+  types,
+  accept,
+  multiple,
+  maxFiles,
+  selectedCount = 0,
+  overflowStrategy = 'reject-all'
+}: DragItemsAcceptedParams): boolean {
+  if (types.length === 0) {
+    return false;
+  }
+
+  const limit = multiple ? maxFiles : 1;
+  if (limit >= 1 && selectedCount + types.length > limit) {
+    if (overflowStrategy === 'reject-all') {
+      return false;
+    }
+    [types] = splitOverflow(types, Math.max(0, limit - selectedCount), overflowStrategy);
+    if (!types.length) {
+      return false;
+    }
+  }
+
+  // Without names the items can only be counted against the entries matching their MIME type
+  let items = types.map(type => ({ name: '', type }) as File);
+  const overTypeLimit = filesOverAcceptMaxFiles(items, accept, overflowStrategy);
+  if (overTypeLimit.length > 0) {
+    if (overflowStrategy === 'reject-all') {
+      return false;
+    }
+    items = items.filter(item => !overTypeLimit.includes(item));
+    if (!items.length) {
+      return false;
+    }
+  }
+
+  const entries = accept === undefined ? [] : Object.entries(accept);
+  const mimeTypes = entries.map(([mime]) => mime);
+  const byExtension = entries.some(([, entry]) => acceptEntryExtensions(entry).length > 0);
+  return items.every(
+    ({ type }) => !type || mimeTypes.length === 0 || byExtension || accepts({ type } as File, mimeTypes)
+  );
+}
+
+// Two files are considered the same if their name, size and modification date match
+export function fileMetadataKey(file: File): string {
+  return [file.name, file.size, file.lastModified].join(':');
+}
+
+// SHA-256 of the file contents, as a hex string
+export async function fileContentHash(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await readFileBytes(file));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function readFileBytes(file: Blob, start?: number, end?: number): Promise<Uint8Array> {
+  const blob = start !== undefined || end !== undefined ? file.slice(start, end) : file;
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer().then(buffer => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
 export function acceptPropAsAcceptAttr(accept?: Accept): string | undefined {
   if (accept === undefined) {
     return undefined;
   }
   return Object.entries(accept)
-    .reduce((a, [mime, exts]) => [...a, mime, ...exts], [] as string[])
+    .reduce((a, [mime, entry]) => [...a, mime, ...acceptEntryExtensions(entry)], [] as string[])
     .join(',');
 }
 
+function acceptEntryExtensions(entry: string[] | AcceptEntry): string[] {
+  return Array.isArray(entry) ? entry : entry.extensions;
+}
+
+// The first entry of the accept map matching the file by MIME type or extension, with its MIME type key
+export function findAcceptEntry(file: File, accept?: Accept): [string, AcceptEntry] | undefined {
+  if (accept === undefined) {
+    return undefined;
+  }
+  for (const [mime, entry] of Object.entries(accept)) {
+    if (accepts(file, [mime, ...acceptEntryExtensions(entry)])) {
+      return [mime, Array.isArray(entry) ? { extensions: entry } : entry];
+    }
+  }
+  return undefined;
+}
+
+export function fileMatchAcceptSize(
+  file: File,
+  accept?: Accept,
+  minSize?: number,
+  maxSize?: number,
+  messages?: ErrorMessages
+): [boolean, FileError | null] {
+  const [, entry] = findAcceptEntry(file, accept) || [];
+  return fileMatchSize(file, entry?.minSize ?? minSize, entry?.maxSize ?? maxSize, messages);
+}
+
+// The files over the `maxFiles` of their accept entry, all the files of the entry with "reject-all" or only the
+// excess ones otherwise. The selected files count towards the limits but are never part of the excess
+export function filesOverAcceptMaxFiles(
+  files: File[],
+  accept?: Accept,
+  overflowStrategy: OverflowStrategy = 'reject-all',
+  selectedFiles: File[] = []
+): File[] {
+  const byEntry = new Map<string, File[]>();
+  const limits = new Map<string, number>();
+  files.forEach(file => {
+    const [mime, entry] = findAcceptEntry(file, accept) || [];
+    if (mime !== undefined && entry?.maxFiles !== undefined) {
+      byEntry.set(mime, [...(byEntry.get(mime) || []), file]);
+      limits.set(mime, entry.maxFiles);
+    }
+  });
+  return Array.from(byEntry).flatMap(([mime, entryFiles]) => {
+    const selectedCount = selectedFiles.filter(file => findAcceptEntry(file, accept)?.[0] === mime).length;
+    const [, excess] = splitOverflow(entryFiles, Math.max(0, limits.get(mime)! - selectedCount), overflowStrategy);
+    return excess;
+  });
+}
+
 export interface PickerOption {
   description: string;
   accept: {
@@ -147,10 +402,10 @@ export function pickerOptionsFromAccept(accept?: Accept): PickerOption[] | undef
   if (accept === undefined) {
     return undefined;
   }
-  return Object.entries(accept).map(([mime, exts]) => ({
+  return Object.entries(accept).map(([mime, entry]) => ({
     description: 'Files',
     accept: {
-      [mime]: exts
+      [mime]: acceptEntryExtensions(entry)
     }
   }));
 }
@@ -179,6 +434,60 @@ export function isEvtWithFiles(event: Event): event is DragEvent | (Event & { ta
   );
 }
 
+// Files picked through a `webkitdirectory` input carry their location in `webkitRelativePath` (e.g. `photos/2024/img.jpg`),
+// which is normalized to the same `/photos/2024/img.jpg` form used for dropped folders
+export function toFileWithPath(file: File, path?: string): FileWithPath {
+  if (typeof path !== 'string') {
+    const relativePath = file.webkitRelativePath;
+    path = relativePath ? `/${relativePath.replace(/^\/+/, '')}` : file.name;
+  }
+  return Object.assign(file, { path });
+}
+
+/**
+ * Replace the files of a file input, so that they are submitted with its form.
+ * Returns false in browsers which cannot build a `FileList` through `DataTransfer`.
+ */
+export function setInputFiles(input: HTMLInputElement, files: File[]): boolean {
+  if (typeof DataTransfer === 'undefined') {
+    return false;
+  }
+  try {
+    const dataTransfer = new DataTransfer();
+    files.forEach(file => dataTransfer.items.add(file));
+    input.files = dataTransfer.files;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Append the files to the form data, named by their relative path so that dropped folders keep their structure
+export function filesToFormData(files: FileWithPath[], fieldName: string, formData = new FormData()): FormData {
+  files.forEach(file => {
+    formData.append(fieldName, file, (file.path || file.name).replace(/^\.?\/+/, ''));
+  });
+  return formData;
+}
+
+// Check if any of the dragged items is a directory, whose contents are only available through the entries API
+export function hasDirectoryItems(dataTransfer: DataTransfer): boolean {
+  return Array.prototype.some.call(
+    dataTransfer.items || [],
+    (item: DataTransferItem) =>
+      item.kind === 'file' &&
+      typeof item.webkitGetAsEntry === 'function' &&
+      !!item.webkitGetAsEntry()?.isDirectory
+  );
+}
+
+export function isClipboardEvtWithFiles(event: ClipboardEvent): boolean {
+  if (!event.clipboardData) {
+    return false;
+  }
+  return Array.prototype.some.call(event.clipboardData.types, (type: string) => type === 'Files');
+}
+
 // Check if the provided event is a keyboard event.
 export function isKeyboardEvent(event: Event): event is KeyboardEvent {
   return 'key' in event;
@@ -210,6 +519,10 @@ export function canUseFileSystemAccessAPI(): boolean {
   return 'showOpenFilePicker' in window;
 }
 
+export function canUseDirectoryPickerAPI(): boolean {
+  return 'showDirectoryPicker' in window;
+}
+
 export function isAbort(err: Error): boolean {
   return err.name === 'AbortError';
 }
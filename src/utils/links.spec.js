@@ -0,0 +1,39 @@
+import { describe } from 'vitest';
+import { fileNameFromUrl, getDroppedUrls } from './links';
+
+const createDataTransfer = (data) => ({
+  types: Object.keys(data),
+  getData: (format) => data[format] || '',
+});
+
+describe("getDroppedUrls()", () => {
+  it("reads the uri-list without its comments", () => {
+    const dt = createDataTransfer({
+      "text/uri-list": "# from a page\r\nhttps://example.com/a.png\r\nhttps://example.com/b.png",
+    });
+    expect(getDroppedUrls(dt)).toEqual(["https://example.com/a.png", "https://example.com/b.png"]);
+  });
+
+  it("falls back to the images of the html", () => {
+    const dt = createDataTransfer({
+      "text/html": '<img src="https://example.com/a.png"><img src="data:image/gif;base64,R0lGOD==">',
+    });
+    expect(getDroppedUrls(dt)).toEqual(["https://example.com/a.png", "data:image/gif;base64,R0lGOD=="]);
+  });
+
+  it("leaves out other schemes", () => {
+    const dt = createDataTransfer({ "text/uri-list": "javascript:alert(1)\nfile:///etc/passwd" });
+    expect(getDroppedUrls(dt)).toEqual([]);
+  });
+});
+
+describe("fileNameFromUrl()", () => {
+  it("uses the last segment of the path", () => {
+    expect(fileNameFromUrl("https://example.com/photos/my%20cat.png?size=large")).toBe("my cat.png");
+  });
+
+  it("falls back to a generic name", () => {
+    expect(fileNameFromUrl("https://example.com/")).toBe("download");
+    expect(fileNameFromUrl("data:image/gif;base64,R0lGOD==")).toBe("download");
+  });
+});
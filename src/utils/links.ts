@@ -0,0 +1,52 @@
+import { isDragEvent } from './index';
+
+// What browsers put in the data transfer when a link, an image or a text selection from a page is dragged
+const LINK_TYPES = ['text/uri-list', 'text/html', 'text/plain'];
+
+export function isEvtWithLinks(event: Event): event is DragEvent {
+  if (!isDragEvent(event) || !event.dataTransfer) {
+    return false;
+  }
+  return Array.prototype.some.call(event.dataTransfer.types, (type: string) => LINK_TYPES.includes(type));
+}
+
+// The URLs of a drop, from the uri-list or else the images of the html, only http(s) and data URLs are kept
+export function getDroppedUrls(dataTransfer: DataTransfer): string[] {
+  // https://www.rfc-editor.org/rfc/rfc2483#section-5, lines starting with # are comments
+  const uriList = dataTransfer
+    .getData('text/uri-list')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+
+  const urls = uriList.length ? uriList : imageSources(dataTransfer.getData('text/html'));
+  return urls.filter((url) => /^(https?|data):/i.test(url));
+}
+
+function imageSources(html: string): string[] {
+  if (!html) {
+    return [];
+  }
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.images, (image) => image.getAttribute('src') || '').filter(Boolean);
+}
+
+// The default fetcher of dropped URLs, the file is named after the last segment of the URL path
+export async function fetchFile(url: string, signal?: AbortSignal): Promise<File> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  const type = (response.headers.get('content-type') || '').split(';')[0].trim();
+  return new File([await response.arrayBuffer()], fileNameFromUrl(url), { type });
+}
+
+export function fileNameFromUrl(url: string): string {
+  try {
+    const { pathname, protocol } = new URL(url);
+    const name = protocol === 'data:' ? '' : decodeURIComponent(pathname.split('/').pop() || '');
+    return name || 'download';
+  } catch {
+    return 'download';
+  }
+}
@@ -0,0 +1,44 @@
+import { describe } from 'vitest';
+import { createFileError, formatBytes, formatErrorMessage, isFileError } from './messages';
+
+describe("formatErrorMessage()", () => {
+  const details = { maxSize: 1024, actualSize: 2048 };
+
+  it("returns the default English message", () => {
+    expect(formatErrorMessage("file-too-large", details)).toBe("File is larger than 1024 bytes");
+    expect(formatErrorMessage("too-many-files", { maxFiles: 2 }, {})).toBe("Too many files");
+  });
+
+  it("replaces the placeholders of string messages", () => {
+    const messages = { "file-too-large": "Datei ist größer als {maxSize} Bytes ({unknown})" };
+    expect(formatErrorMessage("file-too-large", details, messages)).toBe("Datei ist größer als 1024 Bytes ({unknown})");
+  });
+
+  it("calls function messages with the details", () => {
+    const messages = { "file-too-large": ({ maxSize, actualSize }) => `${formatBytes(actualSize)} > ${formatBytes(maxSize)}` };
+    expect(formatErrorMessage("file-too-large", details, messages)).toBe("2 KB > 1 KB");
+  });
+});
+
+describe("createFileError()", () => {
+  it("attaches the details to the error", () => {
+    const error = createFileError("too-many-files", { maxFiles: 2, count: 3 });
+    expect(error).toEqual({ code: "too-many-files", message: "Too many files", details: { maxFiles: 2, count: 3 } });
+    expect(isFileError(error, "too-many-files")).toBe(true);
+    expect(isFileError(error, "file-too-large")).toBe(false);
+  });
+});
+
+describe("formatBytes()", () => {
+  it("uses the largest unit that keeps the value at or above 1", () => {
+    expect(formatBytes(0)).toBe("0 bytes");
+    expect(formatBytes(1000, "en-US")).toBe("1,000 bytes");
+    expect(formatBytes(1536, "en-US")).toBe("1.5 KB");
+    expect(formatBytes(5242880)).toBe("5 MB");
+    expect(formatBytes(3.5 * 1024 ** 3, "en-US")).toBe("3.5 GB");
+  });
+
+  it("formats the number for the locale", () => {
+    expect(formatBytes(1536, "de-DE")).toBe("1,5 KB");
+  });
+});
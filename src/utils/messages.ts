@@ -0,0 +1,72 @@
+import type { ErrorMessages, FileError, FileErrorDetails } from '../types';
+
+type DefaultMessages = {
+  [K in keyof FileErrorDetails]: (details: FileErrorDetails[K]) => string;
+};
+
+const defaultMessages: DefaultMessages = {
+  'file-invalid-type': ({ accept }) => `File type must be ${accept}`,
+  'file-too-large': ({ maxSize }) => `File is larger than ${maxSize} bytes`,
+  'file-too-small': ({ minSize }) => `File is smaller than ${minSize} bytes`,
+  'too-many-files': () => 'Too many files',
+  'file-duplicate': () => 'File has already been added',
+  'file-type-mismatch': ({ actualType, accept }) =>
+    actualType
+      ? `File content is ${actualType}, which does not match ${accept.join(',')}`
+      : `File content does not match ${accept.join(',')}`,
+  'image-too-small': ({ dimension, limit }) =>
+    `Image is ${dimension === 'width' ? 'narrower' : 'shorter'} than ${limit} pixels`,
+  'image-too-large': ({ dimension, limit }) =>
+    `Image is ${dimension === 'width' ? 'wider' : 'taller'} than ${limit} pixels`,
+  'image-too-many-megapixels': ({ maxMegapixels }) => `Image is larger than ${maxMegapixels} megapixels`,
+  'image-invalid-aspect-ratio': ({ aspectRatio }) => `Image aspect ratio must be ${aspectRatio}`,
+  'total-size-exceeded': ({ maxTotalSize }) => `Files are larger than ${maxTotalSize} bytes in total`,
+  'validator-error': () => 'File could not be validated',
+  'file-unreadable': () => 'File could not be read'
+};
+
+/**
+ * Build the message of an error from the `messages` prop, or the default English message.
+ * Strings may refer to the details as `{name}`, e.g. "Maximum size is {maxSize} bytes".
+ */
+export function formatErrorMessage<K extends keyof FileErrorDetails>(
+  code: K,
+  details: FileErrorDetails[K],
+  messages?: ErrorMessages
+): string {
+  const message = messages?.[code] as string | ((details: FileErrorDetails[K]) => string) | undefined;
+  if (typeof message === 'string') {
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in details ? String((details as Record<string, unknown>)[name]) : placeholder
+    );
+  }
+  return (message || defaultMessages[code])(details);
+}
+
+export function createFileError<K extends keyof FileErrorDetails>(
+  code: K,
+  details: FileErrorDetails[K],
+  messages?: ErrorMessages
+): FileError<K> {
+  return { code, message: formatErrorMessage(code, details, messages), details } as FileError<K>;
+}
+
+export function isFileError<K extends keyof FileErrorDetails>(error: FileError, code: K): error is FileError<K> {
+  return error.code === code;
+}
+
+const byteUnits = ['bytes', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Format a size in bytes with the largest binary unit that keeps it at or above 1, e.g. 5242880 as "5 MB".
+ * `locale` is passed to `toLocaleString()` for the decimal separator.
+ */
+export function formatBytes(bytes: number, locale?: string | string[]): string {
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < byteUnits.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString(locale, { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${byteUnits[unit]}`;
+}
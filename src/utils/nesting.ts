@@ -0,0 +1,29 @@
+export interface NestedDropzone {
+  root: () => HTMLElement | undefined;
+  // Disabled zones and zones without drag and drop let the drag through to their parent
+  isEnabled: () => boolean;
+}
+
+// The dropzones with `innermostOnly`, shared by every useDropzone() on the page
+const dropzones = new Set<NestedDropzone>();
+
+export function registerDropzone(dropzone: NestedDropzone): () => void {
+  dropzones.add(dropzone);
+  return () => {
+    dropzones.delete(dropzone);
+  };
+}
+
+// The enabled dropzone containing the target whose root is nested the deepest
+export function innermostDropzone(target: Node): NestedDropzone | undefined {
+  let innermost: NestedDropzone | undefined;
+  let innermostRoot: HTMLElement | undefined;
+  dropzones.forEach(dropzone => {
+    const root = dropzone.root();
+    if (root && dropzone.isEnabled() && root.contains(target) && (!innermostRoot || innermostRoot.contains(root))) {
+      innermost = dropzone;
+      innermostRoot = root;
+    }
+  });
+  return innermost;
+}
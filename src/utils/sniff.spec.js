@@ -0,0 +1,93 @@
+import { describe } from 'vitest';
+import { fileContentAccepted, sniffFileType } from './sniff';
+
+const bytes = (...values) => new Uint8Array(values);
+const ascii = (text) => Array.from(text, (char) => char.charCodeAt(0));
+
+const samples = {
+  png: bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d),
+  jpeg: bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10),
+  gif: bytes(...ascii("GIF89a")),
+  webp: bytes(...ascii("RIFF"), 0x24, 0, 0, 0, ...ascii("WEBPVP8 ")),
+  pdf: bytes(...ascii("%PDF-1.7")),
+  zip: bytes(0x50, 0x4b, 0x03, 0x04, 0x14, 0),
+  mp4: bytes(0, 0, 0, 0x20, ...ascii("ftypisom"), 0, 0, 2, 0),
+  mov: bytes(0, 0, 0, 0x14, ...ascii("ftypqt  "), 0, 0, 2, 0),
+  text: bytes(...ascii("hello world")),
+  // An MP3 without an ID3v2 tag, MPEG-1 layer III frame header
+  mp3: bytes(0xff, 0xfb, 0x90, 0x64, 0, 0, 0, 0),
+  // File header then a 40-byte BITMAPINFOHEADER
+  bmp: bytes(...ascii("BM"), 0x36, 0, 0, 0, 0, 0, 0, 0, 0x36, 0, 0, 0, 0x28, 0, 0, 0),
+  csv: bytes(...ascii("BMI,height,weight\n22.5,180,73\n")),
+};
+
+const createFile = (sample, name, type = "") => new File([sample], name, { type });
+
+describe("sniffFileType()", () => {
+  it("detects formats from their signature", async () => {
+    expect(await sniffFileType(createFile(samples.png, "a"))).toBe("image/png");
+    expect(await sniffFileType(createFile(samples.jpeg, "a"))).toBe("image/jpeg");
+    expect(await sniffFileType(createFile(samples.gif, "a"))).toBe("image/gif");
+    expect(await sniffFileType(createFile(samples.webp, "a"))).toBe("image/webp");
+    expect(await sniffFileType(createFile(samples.pdf, "a"))).toBe("application/pdf");
+    expect(await sniffFileType(createFile(samples.zip, "a"))).toBe("application/zip");
+    expect(await sniffFileType(createFile(samples.mp4, "a"))).toBe("video/mp4");
+    expect(await sniffFileType(createFile(samples.mov, "a"))).toBe("video/quicktime");
+    expect(await sniffFileType(createFile(samples.mp3, "a"))).toBe("audio/mpeg");
+    expect(await sniffFileType(createFile(samples.bmp, "a"))).toBe("image/bmp");
+  });
+
+  it("returns null for unknown formats", async () => {
+    expect(await sniffFileType(createFile(samples.text, "a"))).toBeNull();
+    expect(await sniffFileType(createFile(bytes(), "a"))).toBeNull();
+    expect(await sniffFileType(createFile(samples.csv, "a"))).toBeNull();
+  });
+});
+
+describe("fileContentAccepted()", () => {
+  it("rejects a file whose content does not match {accept}", async () => {
+    const spoofed = createFile(samples.pdf, "cat.png", "image/png");
+    const [accepted, error] = await fileContentAccepted(spoofed, { "image/*": [".png"] });
+    expect(accepted).toBe(false);
+    expect(error.code).toBe("file-type-mismatch");
+    expect(error.message).toBe("File content is application/pdf, which does not match image/*");
+  });
+
+  it("accepts a file whose content matches {accept}, whatever its declared type", async () => {
+    const untyped = createFile(samples.png, "scan");
+    expect(await fileContentAccepted(untyped, { "image/png": [] })).toEqual([true, null]);
+  });
+
+  it("accepts formats stored in a recognized container", async () => {
+    const docx = createFile(samples.zip, "report.docx");
+    const accept = { "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"] };
+    expect(await fileContentAccepted(docx, accept)).toEqual([true, null]);
+  });
+
+  it("rejects unknown formats if every type in {accept} has a signature", async () => {
+    const spoofed = createFile(samples.text, "x.png", "image/png");
+    const [accepted, error] = await fileContentAccepted(spoofed, { "image/png": [], "application/pdf": [] });
+    expect(accepted).toBe(false);
+    expect(error.code).toBe("file-type-mismatch");
+    expect(error.details.actualType).toBeNull();
+    expect(error.message).toBe("File content does not match image/png,application/pdf");
+  });
+
+  it("accepts MP3 files without an ID3 tag and text that starts like a bitmap", async () => {
+    const mp3 = createFile(samples.mp3, "song.mp3", "audio/mpeg");
+    expect(await fileContentAccepted(mp3, { "audio/mpeg": [".mp3"] })).toEqual([true, null]);
+    const csv = createFile(samples.csv, "bmi.csv", "text/csv");
+    expect(await fileContentAccepted(csv, { "text/csv": [] })).toEqual([true, null]);
+  });
+
+  it("accepts unknown formats if {accept} has types without a signature", async () => {
+    const spoofed = createFile(samples.text, "x.png", "image/png");
+    expect(await fileContentAccepted(spoofed, { "image/png": [], "image/svg+xml": [] })).toEqual([true, null]);
+    expect(await fileContentAccepted(spoofed, { "image/*": [] })).toEqual([true, null]);
+  });
+
+  it("accepts unknown formats and anything if there is no {accept}", async () => {
+    expect(await fileContentAccepted(createFile(samples.text, "a.txt"), { "text/plain": [] })).toEqual([true, null]);
+    expect(await fileContentAccepted(createFile(samples.pdf, "a.pdf"))).toEqual([true, null]);
+  });
+});
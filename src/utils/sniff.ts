@@ -0,0 +1,153 @@
+import { Accept, ErrorMessages, FileError } from '../types';
+import { accepts, ErrorCode, readFileBytes } from './index';
+import { createFileError } from './messages';
+
+// Enough to see the signatures below, including the ftyp brand of MP4-like containers
+const SNIFF_LENGTH = 32;
+
+interface Signature {
+  mime: string;
+  bytes: Array<number | null>;
+  offset?: number;
+  // Further checks for signatures too short to be told apart from other content on their own
+  check?: (bytes: Uint8Array) => boolean;
+}
+
+// The header size that follows the 14-byte file header tells a bitmap apart from text starting with "BM"
+const DIB_HEADER_SIZES = [12, 16, 40, 52, 56, 64, 108, 124];
+
+function hasDibHeader(bytes: Uint8Array): boolean {
+  const size = bytes[14] | (bytes[15] << 8) | (bytes[16] << 16) | (bytes[17] << 24);
+  return DIB_HEADER_SIZES.includes(size);
+}
+
+// MP3 files without an ID3v2 tag start with an MPEG audio frame: 11 sync bits, a version that is not reserved
+// and a layer that is not reserved (ADTS AAC uses layer 0)
+function isMpegFrame(bytes: Uint8Array): boolean {
+  return (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x18) !== 0x08 && (bytes[1] & 0x06) !== 0;
+}
+
+// https://en.wikipedia.org/wiki/List_of_file_signatures, null matches any byte
+const signatures: Signature[] = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mime: 'image/bmp', bytes: [0x42, 0x4d], check: hasDibHeader },
+  { mime: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mime: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { mime: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mime: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: 'application/vnd.rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { mime: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { mime: 'video/x-msvideo', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x41, 0x56, 0x49, 0x20] },
+  { mime: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mime: 'audio/mpeg', bytes: [0xff], check: isMpegFrame },
+  { mime: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mime: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { mime: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mime: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+];
+
+// ISO base media files share the `ftyp` box, its major brand tells them apart
+const ftypBrands: { [brand: string]: string } = {
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4V ': 'video/x-m4v',
+  'heic': 'image/heic',
+  'heix': 'image/heic',
+  'mif1': 'image/heif',
+  'avif': 'image/avif',
+  '3gp4': 'video/3gpp',
+  '3gp5': 'video/3gpp',
+};
+
+// Formats stored inside another container, e.g. a .docx is a ZIP archive and a .mov an MP4-like file
+const containedTypes: { [mime: string]: string[] } = {
+  'application/zip': [
+    'application/x-zip-compressed',
+    'application/epub+zip',
+    'application/java-archive',
+    'application/vnd.openxmlformats-officedocument.*',
+    'application/vnd.oasis.opendocument.*',
+    'application/vnd.android.package-archive',
+  ],
+  'audio/ogg': ['video/ogg', 'application/ogg'],
+  'video/webm': ['audio/webm', 'video/x-matroska'],
+  'audio/wav': ['audio/x-wav', 'audio/wave'],
+  'image/x-icon': ['image/vnd.microsoft.icon'],
+};
+
+const detectableTypes = [
+  ...signatures.map(({ mime }) => mime),
+  ...Object.values(ftypBrands),
+  ...Object.values(containedTypes).flat(),
+];
+
+// Whether files of this type can be told apart by their content, never for wildcards such as `image/*`
+// since they also match formats without a signature, e.g. SVG
+function isDetectableType(mimeType: string): boolean {
+  return !mimeType.endsWith('*') && detectableTypes.some(type => matchesMimeType(type, mimeType));
+}
+
+/**
+ * Detect the real format of a file from its first bytes, null if the format is not recognized.
+ */
+export async function sniffFileType(file: Blob): Promise<string | null> {
+  const bytes = await readFileBytes(file, 0, SNIFF_LENGTH);
+  const signature = signatures.find(({ bytes: expected, offset = 0, check }) =>
+    expected.every((byte, i) => byte === null || bytes[offset + i] === byte) && (!check || check(bytes))
+  );
+  if (!signature) {
+    return null;
+  }
+  if (signature.mime === 'video/mp4') {
+    const brand = String.fromCharCode(...Array.from(bytes.subarray(8, 12)));
+    return ftypBrands[brand] || signature.mime;
+  }
+  return signature.mime;
+}
+
+/**
+ * Check that the sniffed format of a file is one of the MIME types in `accept`.
+ * Files in a format that is not recognized are rejected when every accepted type has a known signature,
+ * and pass otherwise, as they may be of one of the types that cannot be sniffed.
+ */
+export async function fileContentAccepted(
+  file: File,
+  accept?: Accept,
+  messages?: ErrorMessages
+): Promise<[boolean, FileError | null]> {
+  const mimeTypes = accept ? Object.keys(accept) : [];
+  if (!mimeTypes.length) {
+    return [true, null];
+  }
+  const sniffedType = await sniffFileType(file);
+  if (sniffedType === null) {
+    const isAcceptable = !mimeTypes.every(isDetectableType);
+    return [
+      isAcceptable,
+      isAcceptable ? null : createFileError(ErrorCode.FileTypeMismatch, { accept: mimeTypes, actualType: null }, messages)
+    ];
+  }
+  const candidates = [sniffedType, ...(containedTypes[sniffedType] || [])];
+  const isAcceptable = mimeTypes.some(mimeType =>
+    candidates.some(type => matchesMimeType(type, mimeType))
+  );
+  return [
+    isAcceptable,
+    isAcceptable ? null : createFileError(ErrorCode.FileTypeMismatch, { accept: mimeTypes, actualType: sniffedType }, messages)
+  ];
+}
+
+// Like accepts(), but both sides may be wildcards such as `application/vnd.oasis.opendocument.*`
+function matchesMimeType(type: string, pattern: string): boolean {
+  if (type.endsWith('*')) {
+    return pattern.toLowerCase().startsWith(type.slice(0, -1));
+  }
+  return accepts({ name: '', type } as File, pattern);
+}
@@ -1,9 +1,11 @@
-import { describe, it, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import { render, fireEvent, cleanup, renderHook, waitFor } from '@solidjs/testing-library';
-import { createSignal, Component, createRoot } from 'solid-js';
+import { createSignal, Component, createRoot, For } from 'solid-js';
 import { fromEvent } from 'file-selector';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
 import * as utils from '../src/utils';
-import Dropzone, { useDropzone } from '../src/index';
+import Dropzone, { useDropzone, FileWithPath, DropzoneProps, DropzoneHookResult, DropzoneInputProps, ErrorCode, formatBytes, DropEvent, fromEvent as fromDropEvent } from '../src/index';
 
 // Mock DataTransfer for tests
 type DragEffect = 'none' | 'copy' | 'link' | 'move';
@@ -106,6 +108,34 @@ export function createDtWithFiles(files: File[] = []) {
   return { dataTransfer: dt as unknown as DataTransfer };
 }
 
+// Render a dropzone with an input and capture the state of the hook
+function renderDropzone(props: DropzoneProps = {}, inputProps: DropzoneInputProps = {}) {
+  let dropzoneState!: DropzoneHookResult;
+  const { container, unmount } = render(() => (
+    <Dropzone {...props}>
+      {(state) => {
+        dropzoneState = state;
+        return (
+          <div {...state.getRootProps()}>
+            <input {...state.getInputProps(inputProps)} />
+          </div>
+        );
+      }}
+    </Dropzone>
+  ));
+  const dropzone = container.querySelector("div");
+  const input = container.querySelector("input");
+  if (!dropzone || !input) throw new Error("dropzone elements not found");
+  return { dropzone, input, state: dropzoneState, unmount };
+}
+
+// Like createDtWithFiles(), but the FileList is empty as in a browser before the drop
+export function createDtWithItems(files: File[] = []) {
+  const { dataTransfer } = createDtWithFiles(files);
+  (dataTransfer as unknown as MockDataTransfer).files = [];
+  return { dataTransfer };
+}
+
 describe("useDropzone() hook", () => {
   let files: File[];
   let images: File[];
@@ -430,6 +460,31 @@ describe("useDropzone() hook", () => {
       expect(container.querySelector('input')).toBe(inputRef);
     });
 
+    test('{rootRef, inputRef} and {isFileDialogActive} are reactive accessors', async () => {
+      let dropzoneState!: DropzoneHookResult;
+      const { container } = render(() => (
+        <Dropzone>
+          {(state) => {
+            dropzoneState = state;
+            return (
+              <div {...state.getRootProps()}>
+                <input {...state.getInputProps()} />
+                {state.isFileDialogActive() && "dialog open"}
+              </div>
+            );
+          }}
+        </Dropzone>
+      ));
+
+      expect(dropzoneState.rootRef()).toBe(container.querySelector('div'));
+      expect(dropzoneState.inputRef()).toBe(container.querySelector('input'));
+      expect(container).not.toHaveTextContent("dialog open");
+
+      dropzoneState.open();
+      expect(dropzoneState.isFileDialogActive()).toBe(true);
+      expect(container).toHaveTextContent("dialog open");
+    });
+
     // test("<Dropzone> exposes and sets the ref if using a ref object", () => {
     //   const dropzoneRef = createRef();
     //   const onClickSpy = vi.spyOn(HTMLInputElement.prototype, "click");
@@ -796,6 +851,159 @@ describe("useDropzone() hook", () => {
     });
   });
 
+  describe("{windowDrop}", () => {
+    it("tracks drags over the page and accepts files dropped outside the root", async () => {
+      const onDropAccepted = vi.fn();
+
+      const { container } = render(() => (
+        <div>
+          <p id="elsewhere">Somewhere else on the page</p>
+          <Dropzone windowDrop onDropAccepted={onDropAccepted}>
+            {({ getRootProps, getInputProps, isDragOverWindow }) => (
+              <div id="dropzone" {...getRootProps()}>
+                <input {...getInputProps()} />
+                {isDragOverWindow() && "overlay"}
+              </div>
+            )}
+          </Dropzone>
+        </div>
+      ));
+
+      const elsewhere = container.querySelector("#elsewhere");
+      const dropzone = container.querySelector("#dropzone");
+      if (!elsewhere || !dropzone) throw new Error("elements not found");
+      const data = createDtWithFiles(files);
+
+      fireEvent.dragEnter(elsewhere, data);
+      expect(dropzone).toHaveTextContent("overlay");
+
+      fireEvent.dragLeave(elsewhere, data);
+      expect(dropzone).not.toHaveTextContent("overlay");
+
+      fireEvent.dragEnter(elsewhere, data);
+      fireEvent.drop(elsewhere, data);
+      expect(dropzone).not.toHaveTextContent("overlay");
+      await waitFor(() => expect(onDropAccepted).toHaveBeenCalledWith(files, expect.anything()));
+    });
+
+    it("resets {isDragOverWindow} when the root stops the drop with {noDragEventsBubbling}", async () => {
+      const onDropAccepted = vi.fn();
+
+      const { container } = render(() => (
+        <div>
+          <p id="elsewhere">Somewhere else on the page</p>
+          <Dropzone windowDrop noDragEventsBubbling onDropAccepted={onDropAccepted}>
+            {({ getRootProps, getInputProps, isDragOverWindow }) => (
+              <div id="dropzone" {...getRootProps()}>
+                <input {...getInputProps()} />
+                {isDragOverWindow() && "overlay"}
+              </div>
+            )}
+          </Dropzone>
+        </div>
+      ));
+
+      const elsewhere = container.querySelector("#elsewhere");
+      const dropzone = container.querySelector("#dropzone");
+      if (!elsewhere || !dropzone) throw new Error("elements not found");
+      const data = createDtWithFiles(files);
+
+      fireEvent.dragEnter(elsewhere, data);
+      fireEvent.dragEnter(dropzone, data);
+      expect(dropzone).toHaveTextContent("overlay");
+
+      fireEvent.drop(dropzone, data);
+      expect(dropzone).not.toHaveTextContent("overlay");
+      await waitFor(() => expect(onDropAccepted).toHaveBeenCalledWith(files, expect.anything()));
+    });
+
+    it("leaves drops that another handler took to it", async () => {
+      const onDropAccepted = vi.fn();
+
+      const { container } = render(() => (
+        <div>
+          <p id="elsewhere" onDrop={(event) => event.preventDefault()}>
+            Another drop target
+          </p>
+          <Dropzone windowDrop onDropAccepted={onDropAccepted}>
+            {({ getRootProps, getInputProps, isDragOverWindow }) => (
+              <div id="dropzone" {...getRootProps()}>
+                <input {...getInputProps()} />
+                {isDragOverWindow() && "overlay"}
+              </div>
+            )}
+          </Dropzone>
+        </div>
+      ));
+
+      const elsewhere = container.querySelector("#elsewhere");
+      const dropzone = container.querySelector("#dropzone");
+      if (!elsewhere || !dropzone) throw new Error("elements not found");
+      const data = createDtWithFiles(files);
+
+      fireEvent.dragEnter(elsewhere, data);
+      fireEvent.drop(elsewhere, data);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(dropzone).not.toHaveTextContent("overlay");
+      expect(onDropAccepted).not.toHaveBeenCalled();
+    });
+
+    it("leaves drags of text outside the root to the browser", () => {
+      const { container } = render(() => (
+        <div>
+          <input id="elsewhere" />
+          <Dropzone windowDrop preventDropOnDocument={false}>
+            {({ getRootProps, getInputProps }) => (
+              <div {...getRootProps()}>
+                <input {...getInputProps()} />
+              </div>
+            )}
+          </Dropzone>
+        </div>
+      ));
+
+      const elsewhere = container.querySelector("#elsewhere");
+      if (!elsewhere) throw new Error("elements not found");
+      const dt = new MockDataTransfer();
+      dt.setData("text/plain", "hello");
+      const data = { dataTransfer: dt as unknown as DataTransfer };
+
+      expect(fireEvent.dragOver(elsewhere, data)).toBe(true);
+      expect(fireEvent.drop(elsewhere, data)).toBe(true);
+    });
+
+    it("ignores drags and drops outside the root by default", async () => {
+      const onDropAccepted = vi.fn();
+
+      const { container } = render(() => (
+        <div>
+          <p id="elsewhere">Somewhere else on the page</p>
+          <Dropzone onDropAccepted={onDropAccepted}>
+            {({ getRootProps, getInputProps, isDragOverWindow }) => (
+              <div id="dropzone" {...getRootProps()}>
+                <input {...getInputProps()} />
+                {isDragOverWindow() && "overlay"}
+              </div>
+            )}
+          </Dropzone>
+        </div>
+      ));
+
+      const elsewhere = container.querySelector("#elsewhere");
+      const dropzone = container.querySelector("#dropzone");
+      if (!elsewhere || !dropzone) throw new Error("elements not found");
+      const data = createDtWithFiles(files);
+
+      fireEvent.dragEnter(elsewhere, data);
+      expect(dropzone).not.toHaveTextContent("overlay");
+
+      fireEvent.drop(elsewhere, data);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onDropAccepted).not.toHaveBeenCalled();
+    });
+  });
+
   describe("event propagation", () => {
     const data = createDtWithFiles(files);
 
@@ -979,6 +1187,56 @@ describe("useDropzone() hook", () => {
       expect(parentProps.onDrop).not.toHaveBeenCalled();
     });
 
+    test("only the innermost dropzone under the pointer is active and receives the drop if {innermostOnly} is true", async () => {
+      const innerProps = { onDrop: vi.fn(), onDropAccepted: vi.fn() };
+      const parentProps = { onDrop: vi.fn(), onDropAccepted: vi.fn() };
+      const [innerDisabled, setInnerDisabled] = createSignal(false);
+
+      const { container } = render(() => (
+        <Dropzone {...parentProps} innermostOnly>
+          {({ getRootProps, isDragActive }) => (
+            <div id="outer-dropzone" {...getRootProps()}>
+              {isDragActive() && "outer active"}
+              <Dropzone {...innerProps} innermostOnly disabled={innerDisabled()}>
+                {({ getRootProps, isDragActive }) => (
+                  <div id="inner-dropzone" {...getRootProps()}>
+                    {isDragActive() && "inner active"}
+                  </div>
+                )}
+              </Dropzone>
+            </div>
+          )}
+        </Dropzone>
+      ));
+
+      const outerDropzone = container.querySelector("#outer-dropzone");
+      const innerDropzone = container.querySelector("#inner-dropzone");
+      if (!outerDropzone || !innerDropzone) throw new Error("dropzone elements not found");
+      const data = createDtWithFiles(images);
+
+      fireEvent.dragEnter(outerDropzone, data);
+      expect(outerDropzone).toHaveTextContent("outer active");
+      expect(innerDropzone).not.toHaveTextContent("inner active");
+
+      fireEvent.dragEnter(innerDropzone, data);
+      expect(innerDropzone).toHaveTextContent("inner active");
+      expect(outerDropzone).not.toHaveTextContent("outer active");
+
+      fireEvent.drop(innerDropzone, data);
+      await waitFor(() => expect(innerProps.onDropAccepted).toHaveBeenCalledWith(images, expect.anything()));
+      expect(innerProps.onDrop).toHaveBeenCalled();
+      expect(parentProps.onDrop).not.toHaveBeenCalled();
+      expect(parentProps.onDropAccepted).not.toHaveBeenCalled();
+
+      // A disabled zone lets the drag through to its parent
+      setInnerDisabled(true);
+      fireEvent.dragEnter(innerDropzone, data);
+      expect(outerDropzone).toHaveTextContent("outer active");
+
+      fireEvent.drop(innerDropzone, data);
+      await waitFor(() => expect(parentProps.onDropAccepted).toHaveBeenCalledWith(images, expect.anything()));
+    });
+
     // test("onDragLeave is not invoked for the parent dropzone if it was invoked for an inner dropzone", async () => {
     //   const innerDragLeave = vi.fn();
     //   const InnerDropzone = () => (
@@ -1059,6 +1317,40 @@ describe("useDropzone() hook", () => {
       expect(props.getFilesFromEvent).toHaveBeenCalledTimes(2);
     });
 
+    it("ignores the files of an extraction superseded by a newer drop", async () => {
+      const extractions: Array<{ signal: AbortSignal; resolve: (files: File[]) => void }> = [];
+      const getFilesFromEvent = vi.fn((event: DropEvent, signal?: AbortSignal) =>
+        (event as Event).type === "drop"
+          ? new Promise<File[]>((resolve) => extractions.push({ signal: signal!, resolve }))
+          : Promise.resolve([])
+      );
+      const { dropzone, state } = renderDropzone({ getFilesFromEvent });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      fireEvent.drop(dropzone, createDtWithFiles(files));
+      const [first, second] = extractions;
+      expect(first.signal.aborted).toBe(true);
+      expect(second.signal.aborted).toBe(false);
+
+      second.resolve(files);
+      first.resolve(images);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(state.acceptedFiles()).toEqual(files);
+    });
+
+    it("stops walking dropped folders once the signal is aborted", async () => {
+      const directoryHandle = createFileSystemDirectoryHandle("photos", [
+        createFileSystemFileHandle(images[0]),
+      ]) as unknown as FileSystemDirectoryHandle;
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(fromDropEvent([directoryHandle], controller.signal)).rejects.toMatchObject({
+        name: "AbortError",
+      });
+    });
+
     // it("calls {onError} when getFilesFromEvent() rejects", async () => {
     //   const data = createDtWithFiles(files);
 
@@ -2475,6 +2767,45 @@ describe("useDropzone() hook", () => {
       expect(dropzone).toHaveTextContent("dragReject");
     });
 
+    it("sets {isDragAccept, isDragReject} from the item types if the files are not available on dragenter", async () => {
+      const [maxFiles, setMaxFiles] = createSignal(0);
+      const { container } = render(() => (
+        <Dropzone accept={{ "image/*": [] }} maxFiles={maxFiles()}>
+          {({ getRootProps, getInputProps, isDragAccept, isDragReject, dragItemCount, dragItemTypes }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+              {isDragAccept() && "dragAccept"}
+              {isDragReject() && "dragReject"}
+              <span id="items">{`${dragItemCount()}: ${dragItemTypes().join(",")}`}</span>
+            </div>
+          )}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      const items = container.querySelector("#items");
+      if (!dropzone || !items) throw new Error("dropzone element not found");
+
+      const data = createDtWithItems(images);
+      fireEvent.dragEnter(dropzone, data);
+      expect(dropzone).toHaveTextContent("dragAccept");
+      expect(dropzone).not.toHaveTextContent("dragReject");
+      expect(items).toHaveTextContent("2: image/gif,image/jpeg");
+
+      fireEvent.dragLeave(dropzone, data);
+      expect(items).toHaveTextContent("0:");
+
+      const mixed = createDtWithItems([...files, ...images]);
+      fireEvent.dragEnter(dropzone, mixed);
+      expect(dropzone).not.toHaveTextContent("dragAccept");
+      expect(dropzone).toHaveTextContent("dragReject");
+      fireEvent.dragLeave(dropzone, mixed);
+
+      setMaxFiles(1);
+      fireEvent.dragEnter(dropzone, createDtWithItems(images));
+      expect(dropzone).not.toHaveTextContent("dragAccept");
+      expect(dropzone).toHaveTextContent("dragReject");
+    });
+
     it("keeps {isDragActive} if dragleave is triggered for some arbitrary node", async () => {
       const { container: overlayContainer } = render(() => <div />);
 
@@ -2749,6 +3080,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-invalid-type",
                 message: "File type must be image/*",
+                details: { accept: "image/*", actualType: "application/pdf" },
               },
             ],
           },
@@ -2789,6 +3121,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "too-many-files",
                 message: "Too many files",
+                details: { maxFiles: 1, count: 2 },
               },
             ],
           },
@@ -2798,6 +3131,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "too-many-files",
                 message: "Too many files",
+                details: { maxFiles: 1, count: 2 },
               },
             ],
           },
@@ -2849,6 +3183,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "too-many-files",
                 message: "Too many files",
+                details: { maxFiles: 1, count: 2 },
               },
             ],
           },
@@ -2858,6 +3193,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "too-many-files",
                 message: "Too many files",
+                details: { maxFiles: 1, count: 2 },
               },
             ],
           },
@@ -2906,6 +3242,50 @@ describe("useDropzone() hook", () => {
       );
     });
 
+    it("rejects only the excess files with {overflowStrategy} keep-first or keep-last", async () => {
+      const onDropAcceptedSpy = vi.fn();
+      const onDropRejectedSpy = vi.fn();
+      const [overflowStrategy, setOverflowStrategy] = createSignal<DropzoneProps["overflowStrategy"]>("keep-first");
+
+      const { container } = render(() => (
+        <Dropzone
+          accept={{ "image/*": [] }}
+          onDropAccepted={onDropAcceptedSpy}
+          onDropRejected={onDropRejectedSpy}
+          maxFiles={1}
+          overflowStrategy={overflowStrategy()}
+        >
+          {({ getRootProps, isDragReject, isDragAccept }) => (
+            <div {...getRootProps()}>
+              {isDragReject() && "dragReject"}
+              {isDragAccept() && "dragAccept"}
+            </div>
+          )}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("dropzone element not found");
+
+      fireEvent.dragEnter(dropzone, createDtWithFiles(images));
+      expect(dropzone).toHaveTextContent("dragAccept");
+      expect(dropzone).not.toHaveTextContent("dragReject");
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      expect(onDropAcceptedSpy).toHaveBeenLastCalledWith([images[0]], expect.anything());
+      expect(onDropRejectedSpy).toHaveBeenLastCalledWith(
+        [{ file: images[1], errors: [{ code: "too-many-files", message: "Too many files", details: { maxFiles: 1, count: 2 } }] }],
+        expect.anything()
+      );
+
+      setOverflowStrategy("keep-last");
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      expect(onDropAcceptedSpy).toHaveBeenLastCalledWith([images[1]], expect.anything());
+      expect(onDropRejectedSpy).toHaveBeenLastCalledWith(
+        [{ file: images[0], errors: [{ code: "too-many-files", message: "Too many files", details: { maxFiles: 1, count: 2 } }] }],
+        expect.anything()
+      );
+    });
+
     it("accepts multiple files if {multiple} is true and {accept} criteria is met", async () => {
       const onDropSpy = vi.fn();
       const onDropRejectedSpy = vi.fn();
@@ -3053,6 +3433,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-invalid-type",
                 message: "File type must be image/*",
+                details: { accept: "image/*", actualType: "application/pdf" },
               },
             ],
           },
@@ -3077,6 +3458,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-invalid-type",
                 message: "File type must be image/*",
+                details: { accept: "image/*", actualType: "application/pdf" },
               },
             ],
           },
@@ -3149,6 +3531,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-invalid-type",
                 message: "File type must be image/*",
+                details: { accept: "image/*", actualType: "application/pdf" },
               },
             ],
           },
@@ -3172,6 +3555,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-invalid-type",
                 message: "File type must be image/*",
+                details: { accept: "image/*", actualType: "application/pdf" },
               },
             ],
           },
@@ -3210,6 +3594,40 @@ describe("useDropzone() hook", () => {
       expect(onDropSpy).toHaveBeenCalledWith(images, [], expect.anything());
     });
 
+    it("traverses dropped folders and sets the relative {path} of each file", async () => {
+      const onDropAcceptedSpy = vi.fn();
+
+      const { container } = render(() => (
+        <Dropzone onDropAccepted={onDropAcceptedSpy}>
+          {({ getRootProps, getInputProps }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+            </div>
+          )}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("dropzone element not found");
+
+      const [cats, dogs] = images;
+      const photos = createDirectoryEntry("/photos", [
+        createFileEntry("/photos/cats.gif", cats),
+        createDirectoryEntry("/photos/2024", [
+          createFileEntry("/photos/2024/dogs.gif", dogs),
+        ]),
+      ]);
+
+      fireEvent.drop(dropzone, createDtWithEntries([photos]));
+
+      await waitFor(() => expect(onDropAcceptedSpy).toHaveBeenCalledTimes(1));
+      const [accepted] = onDropAcceptedSpy.mock.calls[0];
+      expect(accepted).toEqual([cats, dogs]);
+      expect(accepted.map((file: FileWithPath) => file.path)).toEqual([
+        "/photos/cats.gif",
+        "/photos/2024/dogs.gif",
+      ]);
+    });
+
     it("filters files according to {maxSize}", async () => {
       const onDropSpy = vi.fn();
 
@@ -3240,6 +3658,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-too-large",
                 message: "File is larger than 1111 bytes",
+                details: { maxSize: 1111, actualSize: 1234 },
               },
             ],
           },
@@ -3249,6 +3668,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-too-large",
                 message: "File is larger than 1111 bytes",
+                details: { maxSize: 1111, actualSize: 2345 },
               },
             ],
           },
@@ -3283,6 +3703,7 @@ describe("useDropzone() hook", () => {
               {
                 code: "file-too-small",
                 message: "File is smaller than 1112 bytes",
+                details: { minSize: 1112, actualSize: 1111 },
               },
             ],
           },
@@ -3292,74 +3713,520 @@ describe("useDropzone() hook", () => {
     });
   });
 
-  describe("onFileDialogCancel", () => {
-    beforeEach(() => {
-      vi.useFakeTimers();
-    });
+  describe("onPaste", () => {
+    it("runs pasted files through the same validation as dropped files if {usePaste} is true", async () => {
+      const onDropSpy = vi.fn();
+      const onDropAcceptedSpy = vi.fn();
+      const onDropRejectedSpy = vi.fn();
 
-    afterEach(() => {
-      vi.useRealTimers();
+      const { container } = render(() => (
+        <Dropzone
+          accept={{ "image/*": [] }}
+          maxSize={2000}
+          onDrop={onDropSpy}
+          onDropAccepted={onDropAcceptedSpy}
+          onDropRejected={onDropRejectedSpy}
+          usePaste
+        >
+          {({ getRootProps, getInputProps }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+            </div>
+          )}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("dropzone element not found");
+
+      const [cats, dogs] = images;
+      fireEvent.paste(dropzone, {
+        clipboardData: createDtWithFiles([cats, dogs, ...files]).dataTransfer,
+      });
+
+      await waitFor(() => expect(onDropAcceptedSpy).toHaveBeenCalled());
+      const [accepted, event] = onDropAcceptedSpy.mock.calls[0];
+      expect(accepted).toEqual([cats]);
+      expect(event.type).toBe("paste");
+      expect(onDropRejectedSpy).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ file: dogs }),
+          expect.objectContaining({ file: files[0] }),
+        ],
+        expect.anything()
+      );
+      expect(onDropSpy).toHaveBeenCalledTimes(1);
     });
 
-    it("is not invoked every time window receives focus", () => {
-      const onFileDialogCancelSpy = vi.fn();
+    it("ignores pasted files if {usePaste} is false", async () => {
+      const onDropAcceptedSpy = vi.fn();
+      const onPasteSpy = vi.fn();
 
-      render(() => (
-        <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
+      const { container } = render(() => (
+        <Dropzone onDropAccepted={onDropAcceptedSpy}>
           {({ getRootProps, getInputProps }) => (
-            <div {...getRootProps()}>
+            <div {...getRootProps({ onPaste: onPasteSpy })}>
               <input {...getInputProps()} />
             </div>
           )}
         </Dropzone>
       ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("dropzone element not found");
 
-      focusWindow();
+      fireEvent.paste(dropzone, { clipboardData: createDtWithFiles(images).dataTransfer });
+      await Promise.resolve();
 
-      expect(onFileDialogCancelSpy).not.toHaveBeenCalled();
+      expect(onPasteSpy).toHaveBeenCalled();
+      expect(onDropAcceptedSpy).not.toHaveBeenCalled();
     });
+  });
 
-    // it("resets {isFileDialogActive}", () => {
-    //   const activeRef = createRef();
-    //   const active = <span ref={activeRef}>I am active</span>;
-    //   const onFileDialogCancelSpy = vi.fn();
+  describe("{acceptLinks}", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    // Stands in for the pages the links are dragged from
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === "/cat.png") {
+          res.writeHead(200, { "Content-Type": "image/png" });
+          res.end(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+        } else if (req.url === "/notes.txt") {
+          res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+          res.end("some notes");
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
 
-    //   const { container } = render(() => (
-    //     <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
-    //       {({ getRootProps, getInputProps, isFileDialogActive }) => (
-    //         <div {...getRootProps()}>
-    //           <input {...getInputProps()} />
-    //           {isFileDialogActive && active}
-    //         </div>
-    //       )}
-    //     </Dropzone>
-    //   ));
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
 
-    //   const dropzone = container.querySelector("div");
+    const createDtWithData = (data: Record<string, string>) => {
+      const dt = new MockDataTransfer();
+      Object.entries(data).forEach(([format, value]) => dt.setData(format, value));
+      return { dataTransfer: dt as unknown as DataTransfer };
+    };
 
-    //   fireEvent.click(dropzone);
+    it("fetches the dropped URLs and validates them like files", async () => {
+      const onDropAccepted = vi.fn();
+      const onDropRejected = vi.fn();
+      const onError = vi.fn();
+      const { dropzone } = renderDropzone({
+        acceptLinks: true,
+        accept: { "image/*": [] },
+        onDropAccepted,
+        onDropRejected,
+        onError,
+      });
 
-    //   expect(activeRef.current).not.toBeNull();
-    //   expect(dropzone).toContainElement(activeRef.current);
+      fireEvent.drop(dropzone, createDtWithData({
+        "text/uri-list": `# dragged from a page\r\n${baseUrl}/cat.png\r\n${baseUrl}/notes.txt\r\n${baseUrl}/missing`,
+      }));
 
-    //   focusWindow();
+      await waitFor(() => expect(onDropAccepted).toHaveBeenCalled());
+      const [[accepted]] = onDropAccepted.mock.calls;
+      expect(accepted).toHaveLength(1);
+      expect(accepted[0].name).toBe("cat.png");
+      expect(accepted[0].type).toBe("image/png");
+      expect(accepted[0].size).toBe(8);
 
-    //   expect(onFileDialogCancelSpy).toHaveBeenCalled();
-    //   expect(dropzone).not.toContainElement(activeRef.current);
-    // });
+      const [[rejections]] = onDropRejected.mock.calls;
+      expect(rejections).toHaveLength(1);
+      expect(rejections[0].file.name).toBe("notes.txt");
+      expect(rejections[0].errors[0].code).toBe(ErrorCode.FileInvalidType);
 
-    it("is not invoked if <input> is not rendered", () => {
-      const onFileDialogCancelSpy = vi.fn();
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
 
-      const [showInput, setShowInput] = createSignal(true);
+    it("fetches the images of dropped html", async () => {
+      const onDropAccepted = vi.fn();
+      const { dropzone } = renderDropzone({ acceptLinks: true, onDropAccepted });
 
-      const DropzoneComponent = () => (
-        <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
-          {({ getRootProps, getInputProps }) => (
-            <div {...getRootProps()}>
-              {showInput() && <input {...getInputProps()} />}
-            </div>
-          )}
+      fireEvent.drop(dropzone, createDtWithData({
+        "text/html": `<p>A cat</p><img src="${baseUrl}/cat.png" alt="cat">`,
+        "text/plain": "A cat",
+      }));
+
+      await waitFor(() => expect(onDropAccepted).toHaveBeenCalled());
+      expect(onDropAccepted.mock.calls[0][0].map((file: File) => file.name)).toEqual(["cat.png"]);
+    });
+
+    it("uses {fetchUrl} to turn URLs into files", async () => {
+      const file = createFile("remote.pdf", 100, "application/pdf");
+      const fetchUrl = vi.fn(() => Promise.resolve(file));
+      const onDropAccepted = vi.fn();
+      const { dropzone } = renderDropzone({ acceptLinks: true, fetchUrl, onDropAccepted });
+
+      fireEvent.drop(dropzone, createDtWithData({ "text/uri-list": "https://example.com/remote.pdf" }));
+
+      await waitFor(() => expect(onDropAccepted).toHaveBeenCalledWith([file], expect.anything()));
+      expect(fetchUrl).toHaveBeenCalledWith("https://example.com/remote.pdf", expect.anything());
+    });
+
+    it("passes dropped text without URLs to {onDropText}", async () => {
+      const onDropText = vi.fn();
+      const fetchUrl = vi.fn();
+      const { dropzone } = renderDropzone({ acceptLinks: true, fetchUrl, onDropText });
+
+      fireEvent.drop(dropzone, createDtWithData({ "text/plain": "just some text" }));
+
+      expect(onDropText).toHaveBeenCalledWith("just some text", expect.anything());
+      expect(fetchUrl).not.toHaveBeenCalled();
+    });
+
+    it("ignores links and text by default", async () => {
+      const onDropText = vi.fn();
+      const fetchUrl = vi.fn();
+      const { dropzone } = renderDropzone({ fetchUrl, onDropText });
+
+      const data = createDtWithData({ "text/uri-list": `${baseUrl}/cat.png`, "text/plain": `${baseUrl}/cat.png` });
+      fireEvent.dragEnter(dropzone, data);
+      fireEvent.drop(dropzone, data);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(fetchUrl).not.toHaveBeenCalled();
+      expect(onDropText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("{accumulate}", () => {
+    it("adds the files of each drop to the selection", async () => {
+      const onDropSpy = vi.fn();
+      const { dropzone, state } = renderDropzone({ accumulate: true, accept: { "image/*": [] }, onDropAccepted: onDropSpy });
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0]]));
+      fireEvent.drop(dropzone, createDtWithFiles([images[1], ...files]));
+
+      // The second drop supersedes the getFilesFromEvent() pass of the first one
+      await waitFor(() => expect(onDropSpy).toHaveBeenCalledTimes(3));
+      expect(onDropSpy).toHaveBeenLastCalledWith([images[1]], expect.anything());
+      expect(state.acceptedFiles()).toEqual(images);
+      expect(state.fileRejections().map(({ file }) => file)).toEqual(files);
+    });
+
+    it("counts the selected files towards {maxFiles}", async () => {
+      const { dropzone, state } = renderDropzone({ accumulate: true, maxFiles: 2 });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      fireEvent.drop(dropzone, createDtWithFiles(files));
+      await Promise.resolve();
+
+      expect(state.acceptedFiles()).toEqual(images);
+      expect(state.fileRejections()).toEqual([
+        { file: files[0], errors: [utils.getTooManyFilesRejection(2, 3)] },
+      ]);
+
+      state.removeFile(images[0]);
+      state.removeRejection(files[0]);
+      expect(state.acceptedFiles()).toEqual([images[1]]);
+      expect(state.fileRejections()).toEqual([]);
+
+      fireEvent.drop(dropzone, createDtWithFiles(files));
+      await Promise.resolve();
+      expect(state.acceptedFiles()).toEqual([images[1], files[0]]);
+    });
+
+    it("counts the selected files towards {maxFiles} on dragenter", async () => {
+      const { dropzone, state } = renderDropzone({ accumulate: true, maxFiles: 2 });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+
+      fireEvent.dragEnter(dropzone, createDtWithFiles(files));
+      expect(state.isDragAccept()).toBe(false);
+      expect(state.isDragReject()).toBe(true);
+    });
+
+    it("clear() empties the selection", async () => {
+      const { dropzone, state } = renderDropzone({ accumulate: true, accept: { "image/*": [] } });
+
+      fireEvent.drop(dropzone, createDtWithFiles([...images, ...files]));
+      await Promise.resolve();
+      state.clear();
+
+      expect(state.acceptedFiles()).toEqual([]);
+      expect(state.fileRejections()).toEqual([]);
+    });
+
+    it("replaces the selection on each drop if {accumulate} is false", async () => {
+      const { dropzone, state } = renderDropzone({ accumulate: false });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      fireEvent.drop(dropzone, createDtWithFiles(files));
+      await Promise.resolve();
+
+      expect(state.acceptedFiles()).toEqual(files);
+    });
+  });
+
+  describe("accept entries with limits", () => {
+    it("applies the size and file count limits of each type", async () => {
+      const video = createFile("clip.mp4", 4000, "video/mp4");
+      const { dropzone, state: dropzoneState } = renderDropzone({
+        accept: {
+          "image/*": { extensions: [], maxSize: 2000, maxFiles: 1 },
+          "video/*": { extensions: [".mp4"], maxSize: 5000 },
+        },
+        maxSize: 3000,
+      });
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0], video]));
+      await waitFor(() => expect(dropzoneState.acceptedFiles()).toEqual([images[0], video]));
+
+      const icon = createFile("icon.png", 100, "image/png");
+      fireEvent.drop(dropzone, createDtWithFiles([...images, icon]));
+      await waitFor(() => expect(dropzoneState.acceptedFiles()).toEqual([]));
+      expect(dropzoneState.fileRejections()).toEqual([
+        {
+          file: images[1],
+          errors: [
+            {
+              code: "file-too-large",
+              message: "File is larger than 2000 bytes",
+              details: { maxSize: 2000, actualSize: 2345 },
+            },
+          ],
+        },
+        { file: images[0], errors: [utils.getTooManyFilesRejection(1, 2)] },
+        { file: icon, errors: [utils.getTooManyFilesRejection(1, 2)] },
+      ]);
+    });
+
+    it("rejects only the excess files of a type with a keep {overflowStrategy}", async () => {
+      const icon = createFile("icon.png", 100, "image/png");
+      const { dropzone, state: dropzoneState } = renderDropzone({
+        accept: { "image/*": { extensions: [], maxFiles: 1 } },
+        overflowStrategy: "keep-first",
+      });
+
+      fireEvent.dragEnter(dropzone, createDtWithFiles([images[0], icon]));
+      expect(dropzoneState.isDragAccept()).toBe(true);
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0], icon]));
+      await waitFor(() => expect(dropzoneState.acceptedFiles()).toEqual([images[0]]));
+      expect(dropzoneState.fileRejections()).toEqual([
+        { file: icon, errors: [utils.getTooManyFilesRejection(1, 2)] },
+      ]);
+    });
+  });
+
+  describe("{messages}", () => {
+    it("replaces the messages of the built-in errors", async () => {
+      const { dropzone, state: dropzoneState } = renderDropzone({
+        accept: { "image/*": [] },
+        maxSize: 2000,
+        messages: {
+          [ErrorCode.FileInvalidType]: "Nur {accept} erlaubt",
+          [ErrorCode.FileTooLarge]: ({ maxSize }) => `Maximal ${formatBytes(maxSize, "de-DE")}`,
+        },
+      });
+
+      fireEvent.drop(dropzone, createDtWithFiles([...images, ...files]));
+      await waitFor(() => expect(dropzoneState.fileRejections()).toHaveLength(2));
+
+      expect(dropzoneState.fileRejections().map(({ errors }) => errors)).toEqual([
+        [{ code: "file-too-large", message: "Maximal 2 KB", details: { maxSize: 2000, actualSize: 2345 } }],
+        [{ code: "file-invalid-type", message: "Nur image/* erlaubt", details: { accept: "image/*", actualType: "application/pdf" } }],
+      ]);
+    });
+  });
+
+  describe("{maxTotalSize}", () => {
+    // 1234 + 2345 bytes
+    const maxTotalSize = 3000;
+
+    it("rejects the whole batch when it is over the limit", async () => {
+      const { dropzone, state } = renderDropzone({ maxTotalSize });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.fileRejections()).toHaveLength(2));
+
+      expect(state.acceptedFiles()).toEqual([]);
+      expect(state.fileRejections()[0].errors).toEqual([
+        {
+          code: "total-size-exceeded",
+          message: "Files are larger than 3000 bytes in total",
+          details: { maxTotalSize: 3000, totalSize: 3579 },
+        },
+      ]);
+    });
+
+    it("accepts files in drop order until the limit is reached with {totalSizeStrategy} keep-first", async () => {
+      const { dropzone, state } = renderDropzone({ maxTotalSize, totalSizeStrategy: "keep-first" });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual([images[0]]));
+
+      expect(state.fileRejections().map(({ file }) => file)).toEqual([images[1]]);
+    });
+
+    it("counts the selection towards the limit with {accumulate}", async () => {
+      const { dropzone, state } = renderDropzone({ maxTotalSize, accumulate: true });
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0]]));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual([images[0]]));
+
+      fireEvent.dragEnter(dropzone, createDtWithFiles([images[1]]));
+      await waitFor(() => expect(state.isDragReject()).toBe(true));
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[1]]));
+      await waitFor(() => expect(state.fileRejections().map(({ file }) => file)).toEqual([images[1]]));
+      expect(state.acceptedFiles()).toEqual([images[0]]);
+    });
+  });
+
+  describe("{duplicateStrategy}", () => {
+    const photo = () => new File(["cat"], "cat.png", { type: "image/png", lastModified: 1700000000000 });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("keeps duplicates by default", async () => {
+      const { dropzone, state } = renderDropzone({});
+      const copies = [photo(), photo()];
+
+      fireEvent.drop(dropzone, createDtWithFiles(copies));
+      await Promise.resolve();
+
+      expect(state.acceptedFiles()).toEqual(copies);
+    });
+
+    it("silently drops duplicates within a drop if it is \"ignore\"", async () => {
+      const { dropzone, state } = renderDropzone({ duplicateStrategy: "ignore" });
+      const [original, copy] = [photo(), photo()];
+
+      fireEvent.drop(dropzone, createDtWithFiles([original, copy, ...images]));
+      await Promise.resolve();
+
+      expect(state.acceptedFiles()).toEqual([original, ...images]);
+      expect(state.fileRejections()).toEqual([]);
+    });
+
+    it("rejects files that are already selected if it is \"reject\"", async () => {
+      const { dropzone, state } = renderDropzone({ duplicateStrategy: "reject", accumulate: true });
+      const [original, copy] = [photo(), photo()];
+
+      fireEvent.drop(dropzone, createDtWithFiles([original]));
+      fireEvent.drop(dropzone, createDtWithFiles([copy, ...files]));
+      await Promise.resolve();
+
+      expect(state.acceptedFiles()).toEqual([original, ...files]);
+      expect(state.fileRejections()).toEqual([
+        { file: copy, errors: [utils.getDuplicateFileRejection()] },
+      ]);
+    });
+
+    it("compares the file contents if {duplicateComparison} is \"content\"", async () => {
+      const { dropzone, state } = renderDropzone({
+        duplicateStrategy: "reject",
+        duplicateComparison: "content",
+      });
+      const original = new File(["meow"], "cat.png", { type: "image/png" });
+      const renamed = new File(["meow"], "kitten.png", { type: "image/png" });
+      const other = new File(["woof"], "cat.png", { type: "image/png" });
+
+      fireEvent.drop(dropzone, createDtWithFiles([original, renamed, other]));
+
+      await waitFor(() => expect(state.fileRejections()).toHaveLength(1));
+      expect(state.acceptedFiles()).toEqual([original, other]);
+      expect(state.fileRejections()[0].file).toBe(renamed);
+      expect(state.fileRejections()[0].errors[0].code).toBe("file-duplicate");
+    });
+
+    it("compares the metadata of the files that cannot be hashed", async () => {
+      vi.stubGlobal("crypto", {});
+      const onError = vi.fn();
+      const { dropzone, state } = renderDropzone({
+        duplicateStrategy: "reject",
+        duplicateComparison: "content",
+        onError,
+      });
+      const original = new File(["meow"], "cat.png", { type: "image/png" });
+      const renamed = new File(["meow"], "kitten.png", { type: "image/png" });
+
+      fireEvent.drop(dropzone, createDtWithFiles([original, renamed]));
+
+      await waitFor(() => expect(state.acceptedFiles()).toEqual([original, renamed]));
+      expect(state.fileRejections()).toEqual([]);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("onFileDialogCancel", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("is not invoked every time window receives focus", () => {
+      const onFileDialogCancelSpy = vi.fn();
+
+      render(() => (
+        <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
+          {({ getRootProps, getInputProps }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+            </div>
+          )}
+        </Dropzone>
+      ));
+
+      focusWindow();
+
+      expect(onFileDialogCancelSpy).not.toHaveBeenCalled();
+    });
+
+    // it("resets {isFileDialogActive}", () => {
+    //   const activeRef = createRef();
+    //   const active = <span ref={activeRef}>I am active</span>;
+    //   const onFileDialogCancelSpy = vi.fn();
+
+    //   const { container } = render(() => (
+    //     <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
+    //       {({ getRootProps, getInputProps, isFileDialogActive }) => (
+    //         <div {...getRootProps()}>
+    //           <input {...getInputProps()} />
+    //           {isFileDialogActive && active}
+    //         </div>
+    //       )}
+    //     </Dropzone>
+    //   ));
+
+    //   const dropzone = container.querySelector("div");
+
+    //   fireEvent.click(dropzone);
+
+    //   expect(activeRef.current).not.toBeNull();
+    //   expect(dropzone).toContainElement(activeRef.current);
+
+    //   focusWindow();
+
+    //   expect(onFileDialogCancelSpy).toHaveBeenCalled();
+    //   expect(dropzone).not.toContainElement(activeRef.current);
+    // });
+
+    it("is not invoked if <input> is not rendered", () => {
+      const onFileDialogCancelSpy = vi.fn();
+
+      const [showInput, setShowInput] = createSignal(true);
+
+      const DropzoneComponent = () => (
+        <Dropzone onFileDialogCancel={onFileDialogCancelSpy}>
+          {({ getRootProps, getInputProps }) => (
+            <div {...getRootProps()}>
+              {showInput() && <input {...getInputProps()} />}
+            </div>
+          )}
         </Dropzone>
       );
 
@@ -3518,6 +4385,110 @@ describe("useDropzone() hook", () => {
     //   );
     // });
 
+    it("can open a directory dialog programmatically", () => {
+      const onClickSpy = vi.spyOn(HTMLInputElement.prototype, "click");
+      const { container } = render(() => (
+        <Dropzone>
+          {({ getRootProps, getInputProps, open, openDirectory }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+              <button id="files" type="button" onClick={open}>
+                Choose files
+              </button>
+              <button id="folder" type="button" onClick={openDirectory}>
+                Choose folder
+              </button>
+            </div>
+          )}
+        </Dropzone>
+      ));
+
+      const input = container.querySelector("input");
+      const filesButton = container.querySelector("#files");
+      const folderButton = container.querySelector("#folder");
+      if (!input || !filesButton || !folderButton) throw new Error("elements not found");
+
+      fireEvent.click(folderButton);
+      expect(onClickSpy).toHaveBeenCalledTimes(1);
+      expect(input).toHaveAttribute("webkitdirectory");
+
+      fireEvent.click(filesButton);
+      expect(onClickSpy).toHaveBeenCalledTimes(2);
+      expect(input).not.toHaveAttribute("webkitdirectory");
+
+      onClickSpy.mockRestore();
+    });
+
+    it("sets the relative {path} of files selected through a directory <input>", async () => {
+      const onDropAcceptedSpy = vi.fn();
+      const { container } = render(() => (
+        <Dropzone onDropAccepted={onDropAcceptedSpy}>
+          {({ getRootProps, getInputProps }) => (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+            </div>
+          )}
+        </Dropzone>
+      ));
+
+      const input = container.querySelector("input");
+      if (!input) throw new Error("input element not found");
+
+      const [cats] = images;
+      Object.defineProperty(cats, "webkitRelativePath", { value: "photos/cats.gif" });
+      fireEvent.change(input, { target: { files: [cats] } });
+
+      expect(onDropAcceptedSpy).toHaveBeenCalledWith([cats], expect.anything());
+      expect((cats as FileWithPath).path).toBe("/photos/cats.gif");
+    });
+
+    it("uses showDirectoryPicker() if {useFsAccessApi} is true", async () => {
+      const [cats, dogs] = images;
+      const directoryHandle = createFileSystemDirectoryHandle("photos", [
+        createFileSystemFileHandle(cats),
+        createFileSystemDirectoryHandle("2024", [createFileSystemFileHandle(dogs)]),
+      ]);
+      const showDirectoryPickerMock = vi.fn().mockResolvedValue(directoryHandle);
+      const isSecureContext = window.isSecureContext;
+      Object.assign(window, {
+        isSecureContext: true,
+        showOpenFilePicker: vi.fn(),
+        showDirectoryPicker: showDirectoryPickerMock,
+      });
+
+      const { container } = render(() => (
+        <Dropzone useFsAccessApi>
+          {({ getRootProps, openDirectory, acceptedFiles }) => (
+            <div {...getRootProps()}>
+              <button type="button" onClick={openDirectory}>
+                Choose folder
+              </button>
+              <ul>
+                <For each={acceptedFiles()}>
+                  {(file: FileWithPath) => <li>{file.path}</li>}
+                </For>
+              </ul>
+            </div>
+          )}
+        </Dropzone>
+      ));
+
+      const button = container.querySelector("button");
+      if (!button) throw new Error("button element not found");
+      fireEvent.click(button);
+
+      expect(showDirectoryPickerMock).toHaveBeenCalled();
+      await waitFor(() =>
+        expect(
+          Array.from(container.querySelectorAll("li")).map((li) => li.textContent)
+        ).toEqual(["/photos/cats.gif", "/photos/2024/dogs.gif"])
+      );
+
+      Object.assign(window, { isSecureContext });
+      Reflect.deleteProperty(window, "showOpenFilePicker");
+      Reflect.deleteProperty(window, "showDirectoryPicker");
+    });
+
     it("does nothing if {disabled} is true", () => {
       const onClickSpy = vi.spyOn(HTMLInputElement.prototype, "click");
       const { container } = render(() => (
@@ -3588,7 +4559,7 @@ describe("useDropzone() hook", () => {
         createDtWithFiles(images)
       )
 
-      expect(onDropSpy).toHaveBeenCalledWith(
+      await waitFor(() => expect(onDropSpy).toHaveBeenCalledWith(
         [images[0]],
         [
           {
@@ -3602,15 +4573,15 @@ describe("useDropzone() hook", () => {
           },
         ],
         expect.anything()
-      );
+      ));
     });
 
-    it("sets {isDragAccept, isDragReject}", async () => {
+    it("is only run on drop", async () => {
       const data = createDtWithFiles(images);
-      const validator = () => ({
+      const validator = vi.fn(() => ({
         code: "not-allowed",
         message: "Cannot do this!",
-      });
+      }));
 
       const ui = (
         <Dropzone validator={validator} multiple={true}>
@@ -3630,8 +4601,388 @@ describe("useDropzone() hook", () => {
 
       fireEvent.dragEnter(dropzone, data);
 
-      expect(dropzone).not.toHaveTextContent("dragAccept");
-      expect(dropzone).toHaveTextContent("dragReject");
+      expect(validator).not.toHaveBeenCalled();
+      expect(dropzone).toHaveTextContent("dragAccept");
+      expect(dropzone).not.toHaveTextContent("dragReject");
+
+      fireEvent.drop(dropzone, data);
+
+      await waitFor(() => expect(validator).toHaveBeenCalledTimes(images.length));
+    });
+
+    it("rejects the files it throws on and reports the error to {onError}", async () => {
+      const failure = new Error("Cannot read dogs");
+      const validator = (file: File) => {
+        if (/dogs/i.test(file.name)) throw failure;
+        return null;
+      };
+      const onErrorSpy = vi.fn();
+      const onDropAcceptedSpy = vi.fn();
+      const onDropRejectedSpy = vi.fn();
+
+      const { container } = render(() => (
+        <Dropzone
+          validator={validator}
+          onError={onErrorSpy}
+          onDropAccepted={onDropAcceptedSpy}
+          onDropRejected={onDropRejectedSpy}
+        >
+          {({ getRootProps }) => <div {...getRootProps()} />}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("Dropzone element not found");
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+
+      await waitFor(() => expect(onDropAcceptedSpy).toHaveBeenCalledWith([images[0]], expect.anything()));
+      expect(onDropRejectedSpy).toHaveBeenCalledWith(
+        [
+          {
+            file: images[1],
+            errors: [{ code: "validator-error", message: "File could not be validated", details: { error: failure } }],
+          },
+        ],
+        expect.anything()
+      );
+      expect(onErrorSpy).toHaveBeenCalledWith(failure);
+    });
+  });
+
+  describe("async validator", () => {
+    it("waits for the validator and sets {isValidating} meanwhile", async () => {
+      const validation = createThenable();
+      const validator = vi.fn((file: File) =>
+        /dogs/i.test(file.name)
+          ? validation.promise.then(() => ({ code: "dogs-not-allowed", message: "Dogs not allowed" }))
+          : Promise.resolve(null)
+      );
+      const onDropSpy = vi.fn();
+      const { dropzone, state: dropzoneState } = renderDropzone({ validator, onDropAccepted: onDropSpy });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+
+      await waitFor(() => expect(dropzoneState.isValidating()).toBe(true));
+      expect(onDropSpy).not.toHaveBeenCalled();
+
+      validation.done();
+
+      await waitFor(() => expect(dropzoneState.isValidating()).toBe(false));
+      expect(dropzoneState.acceptedFiles()).toEqual([images[0]]);
+      expect(dropzoneState.fileRejections()).toEqual([
+        { file: images[1], errors: [{ code: "dogs-not-allowed", message: "Dogs not allowed" }] },
+      ]);
+      expect(onDropSpy).toHaveBeenCalledWith([images[0]], expect.anything());
+      expect(validator).toHaveBeenCalledTimes(images.length);
+    });
+
+    it("drops the results of an outdated validation", async () => {
+      const slowValidation = createThenable();
+      const validator = (file: File) =>
+        file === images[0] ? slowValidation.promise.then(() => null) : Promise.resolve(null);
+      const { dropzone, state: dropzoneState } = renderDropzone({ validator });
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0]]));
+      fireEvent.drop(dropzone, createDtWithFiles(files));
+
+      await waitFor(() => expect(dropzoneState.acceptedFiles()).toEqual(files));
+      expect(dropzoneState.isValidating()).toBe(false);
+
+      slowValidation.done();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(dropzoneState.acceptedFiles()).toEqual(files);
+    });
+
+    it("does not reject files on dragenter while the validator is pending", async () => {
+      const validator = () => new Promise<null>(() => {});
+
+      const { container } = render(() => (
+        <Dropzone validator={validator}>
+          {({ getRootProps, isDragAccept, isDragReject }) => (
+            <div {...getRootProps()}>
+              {isDragAccept() && "dragAccept"}
+              {isDragReject() && "dragReject"}
+            </div>
+          )}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("Dropzone element not found");
+
+      fireEvent.dragEnter(dropzone, createDtWithFiles(images));
+
+      expect(dropzone).toHaveTextContent("dragAccept");
+      expect(dropzone).not.toHaveTextContent("dragReject");
+    });
+  });
+
+  describe("{sniffContent}", () => {
+    it("rejects files whose content does not match {accept}", async () => {
+      const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])], "cat.png", { type: "image/png" });
+      const spoofed = new File(["%PDF-1.7"], "dog.png", { type: "image/png" });
+      const { dropzone, state: dropzoneState } = renderDropzone({ accept: { "image/png": [".png"] }, sniffContent: true });
+
+      fireEvent.drop(dropzone, createDtWithFiles([png, spoofed, ...files]));
+
+      await waitFor(() => expect(dropzoneState.isValidating()).toBe(false));
+      expect(dropzoneState.acceptedFiles()).toEqual([png]);
+      expect(
+        dropzoneState.fileRejections().map(({ file, errors }) => [file, errors.map(({ code }) => code)])
+      ).toEqual([
+        [spoofed, ["file-type-mismatch"]],
+        [files[0], ["file-invalid-type"]],
+      ]);
+    });
+
+    it("rejects the files that cannot be read", async () => {
+      const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])], "cat.png", { type: "image/png" });
+      const failure = new Error("gone");
+      const unreadable = new File([], "dog.png", { type: "image/png" });
+      unreadable.slice = () => ({ arrayBuffer: () => Promise.reject(failure) }) as unknown as Blob;
+      const { dropzone, state: dropzoneState } = renderDropzone({ accept: { "image/png": [".png"] }, sniffContent: true });
+
+      fireEvent.drop(dropzone, createDtWithFiles([png, unreadable]));
+
+      await waitFor(() => expect(dropzoneState.isValidating()).toBe(false));
+      expect(dropzoneState.acceptedFiles()).toEqual([png]);
+      expect(dropzoneState.fileRejections()).toEqual([
+        { file: unreadable, errors: [{ code: "file-unreadable", message: "File could not be read", details: { error: failure } }] },
+      ]);
+    });
+  });
+
+  describe("form submission", () => {
+    class DataTransferMock {
+      files: File[] = [];
+      items = { add: (file: File) => this.files.push(file) };
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const renderFormDropzone = (inputProps: DropzoneInputProps = {}) => {
+      const { dropzone, input, state } = renderDropzone({}, inputProps);
+      // jsdom only takes real FileLists
+      const setFiles = vi.fn();
+      Object.defineProperty(input, "files", { set: setFiles, get: () => null });
+      return { dropzone, setFiles, state };
+    };
+
+    it("syncs the accepted files into a named input", async () => {
+      vi.stubGlobal("DataTransfer", DataTransferMock);
+      const { dropzone, setFiles, state } = renderFormDropzone({ name: "attachments" });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(setFiles).toHaveBeenLastCalledWith(images));
+
+      state.removeFile(images[0]);
+      expect(setFiles).toHaveBeenLastCalledWith([images[1]]);
+    });
+
+    it("puts the accepted files back into the input when the dialog is canceled", async () => {
+      vi.stubGlobal("DataTransfer", DataTransferMock);
+      const { dropzone, setFiles, state } = renderFormDropzone({ name: "attachments" });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(setFiles).toHaveBeenLastCalledWith(images));
+      setFiles.mockClear();
+
+      state.open();
+      focusWindow();
+      await new Promise((resolve) => setTimeout(resolve, 350));
+
+      expect(state.isFileDialogActive()).toBe(false);
+      expect(setFiles).toHaveBeenLastCalledWith(images);
+    });
+
+    it("leaves inputs without a name alone", async () => {
+      vi.stubGlobal("DataTransfer", DataTransferMock);
+      const { dropzone, setFiles, state } = renderFormDropzone();
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+      expect(setFiles).not.toHaveBeenCalled();
+    });
+
+    it("does not break when DataTransfer cannot hold the files", async () => {
+      vi.stubGlobal(
+        "DataTransfer",
+        class extends DataTransferMock {
+          items = {
+            add: () => {
+              throw new TypeError("Failed to execute 'add' on 'DataTransferItemList'");
+            },
+          };
+        }
+      );
+      const { dropzone, state } = renderFormDropzone({ name: "attachments" });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+    });
+
+    it("names the files of {toFormData} by their relative path", async () => {
+      const [cats, dogs] = images;
+      const { dropzone, state } = renderFormDropzone();
+
+      fireEvent.drop(
+        dropzone,
+        createDtWithEntries([
+          createDirectoryEntry("/photos", [createFileEntry("/photos/cats.gif", cats)]),
+          createFileEntry("/dogs.gif", dogs),
+        ])
+      );
+      await waitFor(() => expect(state.acceptedFiles()).toHaveLength(2));
+
+      const formData = state.toFormData("files");
+      expect(formData.getAll("files").map((file) => (file as File).name)).toEqual(["photos/cats.gif", "dogs.gif"]);
+    });
+  });
+
+  describe("previewUrl()", () => {
+    const createObjectURL = vi.fn((file: File) => `blob:${file.name}`);
+    const revokeObjectURL = vi.fn();
+    const originalUrl = { createObjectURL: URL.createObjectURL, revokeObjectURL: URL.revokeObjectURL };
+
+    beforeEach(() => {
+      createObjectURL.mockClear();
+      revokeObjectURL.mockClear();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+    });
+
+    afterEach(() => {
+      // The URLs are revoked on unmount, which has to happen before the originals are back
+      cleanup();
+      Object.assign(URL, originalUrl);
+    });
+
+    it("creates the object URL of a file once, on first use", async () => {
+      const { dropzone, state } = renderDropzone();
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+      expect(createObjectURL).not.toHaveBeenCalled();
+
+      expect(state.previewUrl(images[0])).toBe("blob:cats.gif");
+      expect(state.previewUrl(images[0])).toBe("blob:cats.gif");
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+    });
+
+    it("revokes the URLs of files that leave the selection", async () => {
+      const { dropzone, state } = renderDropzone({ accumulate: true });
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+      images.forEach((image) => state.previewUrl(image));
+
+      state.removeFile(images[0]);
+      expect(revokeObjectURL).toHaveBeenCalledTimes(1);
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:cats.gif");
+
+      state.clear();
+      expect(revokeObjectURL).toHaveBeenCalledTimes(2);
+      expect(revokeObjectURL).toHaveBeenLastCalledWith("blob:dogs.gif");
+    });
+
+    it("revokes the URLs of replaced files", async () => {
+      const { dropzone, state } = renderDropzone();
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0]]));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual([images[0]]));
+      state.previewUrl(images[0]);
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[1]]));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual([images[1]]));
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:cats.gif");
+    });
+
+    it("revokes every URL when the owner is disposed", async () => {
+      const { dropzone, state, unmount } = renderDropzone();
+
+      fireEvent.drop(dropzone, createDtWithFiles(images));
+      await waitFor(() => expect(state.acceptedFiles()).toEqual(images));
+      images.forEach((image) => state.previewUrl(image));
+
+      unmount();
+      expect(revokeObjectURL).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("thumbnail()", () => {
+    const revokeObjectURL = vi.fn();
+    const originalUrl = { createObjectURL: URL.createObjectURL, revokeObjectURL: URL.revokeObjectURL };
+
+    beforeEach(() => {
+      revokeObjectURL.mockClear();
+      Object.assign(URL, { createObjectURL: vi.fn((blob: Blob) => `blob:${blob.size}`), revokeObjectURL });
+      vi.stubGlobal("createImageBitmap", vi.fn(async () => ({ width: 200, height: 100, close: () => {} })));
+      vi.stubGlobal("OffscreenCanvas", vi.fn(() => ({
+        getContext: () => ({ drawImage: () => {} }),
+        convertToBlob: async () => new Blob(["thumb"]),
+      })));
+    });
+
+    afterEach(() => {
+      cleanup();
+      Object.assign(URL, originalUrl);
+      vi.unstubAllGlobals();
+    });
+
+    it("generates the thumbnail in the background and revokes it with the file", async () => {
+      let dropzoneState!: DropzoneHookResult;
+      const { container } = render(() => (
+        <Dropzone thumbnailSize={100}>
+          {(state) => {
+            dropzoneState = state;
+            return (
+              <div {...state.getRootProps()}>
+                <For each={state.acceptedFiles()}>
+                  {(file) => <img src={state.thumbnail(file)} alt={file.name} />}
+                </For>
+              </div>
+            );
+          }}
+        </Dropzone>
+      ));
+      const dropzone = container.querySelector("div");
+      if (!dropzone) throw new Error("dropzone element not found");
+
+      fireEvent.drop(dropzone, createDtWithFiles([images[0]]));
+      await waitFor(() => expect(container.querySelector("img")).toHaveAttribute("src", "blob:5"));
+      expect(createImageBitmap).toHaveBeenCalledTimes(1);
+
+      dropzoneState.removeFile(images[0]);
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:5");
+    });
+  });
+
+  describe("image constraints", () => {
+    it("rejects images outside of the dimension constraints", async () => {
+      const pngHeader = (width: number, height: number) => {
+        const bytes = new Uint8Array(32);
+        bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52]);
+        const view = new DataView(bytes.buffer);
+        view.setUint32(16, width);
+        view.setUint32(20, height);
+        return bytes;
+      };
+      const small = new File([pngHeader(100, 100)], "small.png", { type: "image/png" });
+      const large = new File([pngHeader(800, 600)], "large.png", { type: "image/png" });
+      const wide = new File([pngHeader(1200, 300)], "wide.png", { type: "image/png" });
+      const { dropzone, state: dropzoneState } = renderDropzone({ minWidth: 200, maxMegapixels: 0.5, aspectRatio: 4 / 3 });
+
+      fireEvent.drop(dropzone, createDtWithFiles([small, large, wide, ...files]));
+
+      await waitFor(() => expect(dropzoneState.isValidating()).toBe(false));
+      expect(dropzoneState.acceptedFiles()).toEqual([large, ...files]);
+      expect(
+        dropzoneState.fileRejections().map(({ file, errors }) => [file, errors.map(({ code }) => code)])
+      ).toEqual([
+        [small, ["image-too-small", "image-invalid-aspect-ratio"]],
+        [wide, ["image-invalid-aspect-ratio"]],
+      ]);
     });
   });
 
@@ -3677,7 +5028,72 @@ function focusWindow() {
  * createFileSystemFileHandle creates a mock [FileSystemFileHandle](https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileHandle)
  */
 function createFileSystemFileHandle(file: File) {
-  return { getFile: () => Promise.resolve(file) };
+  return { kind: "file", name: file.name, getFile: () => Promise.resolve(file) };
+}
+
+/**
+ * createFileSystemDirectoryHandle creates a mock [FileSystemDirectoryHandle](https://developer.mozilla.org/en-US/docs/Web/API/FileSystemDirectoryHandle)
+ */
+function createFileSystemDirectoryHandle(name: string, handles: object[]) {
+  return {
+    kind: "directory",
+    name,
+    async *values() {
+      yield* handles;
+    },
+  };
+}
+
+/**
+ * createFileEntry creates a mock [FileSystemFileEntry](https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileEntry)
+ */
+function createFileEntry(fullPath: string, file: File) {
+  return {
+    isFile: true,
+    isDirectory: false,
+    fullPath,
+    name: file.name,
+    file: (resolve: (file: File) => void) => resolve(file),
+  };
+}
+
+/**
+ * createDirectoryEntry creates a mock [FileSystemDirectoryEntry](https://developer.mozilla.org/en-US/docs/Web/API/FileSystemDirectoryEntry)
+ * whose reader hands out its entries one per readEntries() call, like browsers do for large folders
+ */
+function createDirectoryEntry(fullPath: string, entries: object[]) {
+  return {
+    isFile: false,
+    isDirectory: true,
+    fullPath,
+    name: fullPath.split("/").pop(),
+    createReader: () => {
+      const remaining = [...entries];
+      return {
+        readEntries: (resolve: (entries: object[]) => void) =>
+          resolve(remaining.splice(0, 1)),
+      };
+    },
+  };
+}
+
+/**
+ * createDtWithEntries creates a drop payload whose items are backed by file system entries
+ */
+function createDtWithEntries(entries: Array<{ name?: string }>) {
+  const files = entries.map((entry) => new File([], entry.name || ""));
+  return {
+    dataTransfer: {
+      files,
+      types: ["Files"],
+      items: entries.map((entry, i) => ({
+        kind: "file",
+        type: "",
+        getAsFile: () => files[i],
+        webkitGetAsEntry: () => entry,
+      })),
+    },
+  };
 }
 
 function createFile(name: string, size: number, type: string) {
@@ -3693,10 +5109,11 @@ function createFile(name: string, size: number, type: string) {
 /**
  * createThenable creates a Promise that can be controlled from outside its inner scope
  */
-function createThenable() {
-  let done, cancel;
+function createThenable<T = void>() {
+  let done!: (value: T) => void;
+  let cancel!: (reason?: unknown) => void;
 
-  const promise = new Promise((resolve, reject) => {
+  const promise = new Promise<T>((resolve, reject) => {
     done = resolve;
     cancel = reject;
   });